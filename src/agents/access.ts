@@ -0,0 +1,67 @@
+/** Telegram ids arrive as numbers or strings; they are compared as strings. */
+export type AccessId = string | number;
+
+export interface AccessList {
+  user_ids?: AccessId[];
+  chat_ids?: AccessId[];
+  /** Event sources, e.g. `telegram` or `watch-app`. */
+  sources?: string[];
+}
+
+/**
+ * Who may talk to an agent (`AgentConfig.access`). An agent without it is open to everyone.
+ */
+export interface AgentAccessConfig {
+  /** Each list that is set must contain the sender's value; unset lists allow anyone. */
+  allow?: AccessList;
+  /** A sender on any of these lists is refused, whatever `allow` says. */
+  deny?: AccessList;
+  /** Whether users may switch to this agent with an `[a:<agent_id>]` tag. Defaults to true. */
+  allow_override?: boolean;
+  /** Reply sent to refused senders instead of the default refusal. */
+  denied_message?: string;
+}
+
+export interface AccessRequest {
+  user_id?: string;
+  chat_id?: string;
+  source?: string;
+  /** The agent was chosen with an `[a:]` tag rather than by the event. */
+  viaOverride: boolean;
+}
+
+export type AccessDenialReason =
+  | 'override_not_allowed'
+  | 'user_denied'
+  | 'chat_denied'
+  | 'source_denied'
+  | 'user_not_allowed'
+  | 'chat_not_allowed'
+  | 'source_not_allowed';
+
+export type AccessDecision = { allowed: true } | { allowed: false; reason: AccessDenialReason };
+
+function listed(list: AccessId[] | undefined, value: string | undefined): boolean {
+  return value != null && !!list?.some(entry => String(entry) === value);
+}
+
+/**
+ * Decide whether a sender may reach an agent. Deny lists win over allow lists,
+ * and a sender missing a value (e.g. no chat_id) never matches a list.
+ */
+export function checkAccess(config: AgentAccessConfig | undefined, request: AccessRequest): AccessDecision {
+  if (!config) return { allowed: true };
+  const { user_id, chat_id, source, viaOverride } = request;
+
+  if (viaOverride && config.allow_override === false) return { allowed: false, reason: 'override_not_allowed' };
+
+  if (listed(config.deny?.user_ids, user_id)) return { allowed: false, reason: 'user_denied' };
+  if (listed(config.deny?.chat_ids, chat_id)) return { allowed: false, reason: 'chat_denied' };
+  if (listed(config.deny?.sources, source)) return { allowed: false, reason: 'source_denied' };
+
+  if (config.allow?.user_ids && !listed(config.allow.user_ids, user_id)) return { allowed: false, reason: 'user_not_allowed' };
+  if (config.allow?.chat_ids && !listed(config.allow.chat_ids, chat_id)) return { allowed: false, reason: 'chat_not_allowed' };
+  if (config.allow?.sources && !listed(config.allow.sources, source)) return { allowed: false, reason: 'source_not_allowed' };
+
+  return { allowed: true };
+}
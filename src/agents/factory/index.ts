@@ -1,23 +1,66 @@
 import { getDb } from '../../clients/mongodb.js';
+import type { ToolExecutionConfig } from '../../orchestrator/toolExecutor.js';
+import type { AgentLimits } from '../../orchestrator/loopGuard.js';
+import type { ContextConfig } from '../../orchestrator/contextManager.js';
+import type { StructuredOutputConfig } from '../../orchestrator/structuredOutput.js';
+import type { DelegationConfig } from '../../orchestrator/delegation.js';
+import type { ContextProvidersConfig } from '../../orchestrator/context/index.js';
+import type { ProgressConfig } from '../../orchestrator/progress.js';
+import type { AgentAccessConfig } from '../access.js';
+import type { RateLimitConfig } from '../../limits/quotas.js';
+import type { AgentConfigVersion, StoredAgentConfig } from '../store.js';
+import { agentConfigCache } from '../../cache/caches.js';
+import { trace } from '@opentelemetry/api';
 
 /**
  * Agent configuration interface
  */
 export interface MCPServerConfig {
+  /** Optional alias used to namespace colliding tool names; defaults to the URL's first host label. */
+  name?: string;
   url: string;
   api_key: string;
   allowed_tools: string[];
+  /** Tools (by the server's names) that only run once the user approves the call. */
+  require_confirmation?: string[];
 }
 
 export interface AgentConfig {
   agent_id: string;
   name: string;
   system_prompt: string;
+  /** `model` for the LiteLLM proxy, or `provider/model` with provider `openai`, `anthropic`, `gemini`, `litellm` or `mock`. */
   model?: string;
-  // alloweduser_ids?: (string | number)[];
-  // allowedchat_ids?: (string | number)[];
+  /** JSON Schema the final answer must follow; an event's `metadata.response_format` overrides it. */
+  response_format?: StructuredOutputConfig;
+  /** Models to try in order when `model` fails or its circuit is open, in the same form as `model`. */
+  fallback_models?: string[];
+  /** Which users, chats and sources may reach the agent, and whether `[a:]` may switch to it. */
+  access?: AgentAccessConfig;
+  /** Events per minute per user and per agent, and daily token quotas. */
+  rate_limits?: RateLimitConfig;
   mcp_servers?: MCPServerConfig[];
   gemini_voice?: string;
+  /** Stream replies into the placeholder message. Defaults to true. */
+  streaming?: boolean;
+  /** Minimum interval between streamed message edits, in milliseconds. */
+  stream_edit_interval_ms?: number;
+  /** Concurrency and deadlines for tool calls. */
+  tool_execution?: ToolExecutionConfig;
+  /** Bounds on LLM turns, tool calls and tokens per event. */
+  limits?: AgentLimits;
+  /** History budget, binary stripping and summarisation settings. */
+  context?: ContextConfig;
+  /** Which context providers contribute to the system and user messages, with priorities and budgets. */
+  context_providers?: ContextProvidersConfig;
+  /** Progress messages shown while the agent works: locale, templates, per-tool messages and channels. */
+  progress?: ProgressConfig;
+  /** Agents this agent may hand tasks to through the `delegate_to_agent` tool. */
+  delegation?: DelegationConfig;
+  /** Idle hours after which a user's session rolls over to a new one. Defaults to 3. */
+  session_timeout_hours?: number;
+  /** Version of this config in `agent_config_versions`; set by the server. */
+  version?: number;
   [key: string]: any;
 }
 
@@ -37,14 +80,34 @@ export class Agent {
  */
 export class AgentFactory {
   /**
-   * Get agent by agent_id
+   * Get agent by agent_id, or a pinned version of its config from `agent_config_versions`.
+   * Throws for a disabled (soft-deleted) agent. Configs come from `agentConfigCache` when fresh.
    */
-  public async get(agent_id: string): Promise<Agent | null> {
-    const db = await getDb();
-    const collection = db.collection<AgentConfig>('agent_config');
-    const config = await collection.findOne({ agent_id });
+  public async get(agent_id: string, version?: number): Promise<Agent | null> {
+    const { value: config, hit } = await agentConfigCache.getOrLoad(
+      agent_id,
+      async () => (await getDb()).collection<StoredAgentConfig>('agent_config').findOne({ agent_id }) as Promise<StoredAgentConfig>,
+      config => config != null
+    );
+    trace.getActiveSpan()?.setAttribute('agent.config_cache_hit', hit);
 
     if (!config) return null;
+    if (config.disabled) throw new Error(`Agent ${agent_id} is disabled`);
+
+    if (version != null) {
+      // Versions are immutable, so a pinned one only leaves the cache by TTL or a flush
+      const { value: pinned } = await agentConfigCache.getOrLoad(
+        `${agent_id}@${version}`,
+        async () => {
+          const found = await (await getDb())
+            .collection<AgentConfigVersion>('agent_config_versions')
+            .findOne({ agent_id, version });
+          return (found ? { ...found.config, version: found.version } : null) as StoredAgentConfig;
+        },
+        config => config != null
+      );
+      return pinned ? new Agent(pinned) : null;
+    }
 
     return new Agent(config); // config includes model
   }
@@ -1,95 +1,198 @@
 import { Router } from "express";
+import type { Response } from "express";
 import { getDb } from "../clients/mongodb.js";
+import type { AgentConfig } from "./factory/index.js";
+import { agentConfigStore, AgentConfigError, diffConfigs } from "./store.js";
 
 const router = Router();
 
-/** Agent interface */
-interface Agent {
-    agent_id: string;
-    name: string;
-    systemPrompt: string;
-    model: string;
-    mcpServers?: string[];
-    [key: string]: any;
+/**
+ * Send an error response, using the status of an AgentConfigError when there is one.
+ */
+function sendError(res: Response, err: any) {
+    if (err instanceof AgentConfigError) {
+        return res.status(err.status).json({ ok: false, error: err.message, ...(err.details && { details: err.details }) });
+    }
+    res.status(500).json({ ok: false, error: err.message });
+}
+
+/**
+ * Parse a version number from a path or query parameter.
+ */
+function parseVersion(value: unknown): number | null {
+    const version = Number(value);
+    return Number.isInteger(version) && version > 0 ? version : null;
 }
 
-// GET all agents or single agent by ?id=
+// GET all agents or single agent by ?id=; disabled agents are only listed with ?include_disabled=true
 router.get("/", async (req, res) => {
     try {
         const db = await getDb();
         const { id } = req.query;
 
         if (id) {
-            const agent = await db.collection<Agent>("agent_config").findOne({ agent_id: id.toString() });
+            const agent = await db.collection<AgentConfig>("agent_config").findOne({ agent_id: id.toString() });
             if (!agent) return res.status(404).json({ ok: false, error: "Agent not found" });
             return res.json({ ok: true, agent });
         }
 
-        const agents = await db.collection<Agent>("agent_config").find({}).toArray();
+        const filter = req.query.include_disabled === "true" ? {} : { disabled: { $ne: true } };
+        const agents = await db.collection<AgentConfig>("agent_config").find(filter).toArray();
         res.json({ ok: true, agents });
     } catch (err: any) {
-        res.status(500).json({ ok: false, error: err.message });
+        sendError(res, err);
     }
 });
 
-// POST create a new agent
+// POST create a new agent; the body is validated against the agent config schema
 router.post("/", async (req, res) => {
     try {
-        
-        const db = await getDb();
-        const payload: Agent = req.body;
-
-        const requiredFields: (keyof Agent)[] = ["name", "description", "gemini_voice", "system_prompt", "model", "mcp_servers"];
-        for (const field of requiredFields) {
-            if (!payload[field]) {
-                return res.status(400).json({ ok: false, error: `Missing required field: ${field}` });
-            }
-        }
-        
-        await db.collection<Agent>("agent_config").insertOne(payload);
-        res.status(201).json({ ok: true, agent: payload });
+        const agent = await agentConfigStore.create(req.body ?? {});
+        res.status(201).json({ ok: true, agent });
     } catch (err: any) {
-        if (err.code === 11000) {
-            return res.status(409).json({ ok: false, error: 'Agent with this agent_id already exists' });
-        }
-        res.status(500).json({ ok: false, error: err.message });
+        sendError(res, err);
     }
 });
 
-// PATCH update an agent by agent_id
+// PATCH update an agent by agent_id; every change is stored as a new version
 router.patch("/", async (req, res) => {
-  try {
-    const db = await getDb();
-    const { agent_id, ...updates } = req.body as Partial<Agent> & { agent_id: string };
+    try {
+        const { agent_id, ...updates } = (req.body ?? {}) as Partial<AgentConfig>;
+        if (!agent_id) return res.status(400).json({ ok: false, error: "Missing agent_id" });
 
-    if (!agent_id) return res.status(400).json({ ok: false, error: "Missing agent_id" });
+        const agent = await agentConfigStore.update(agent_id, updates);
+        res.json({ ok: true, agent });
+    } catch (err: any) {
+        sendError(res, err);
+    }
+});
 
-    // Prevent changing agent_id
-    if ("agent_id" in updates) delete updates.agent_id;
+// DELETE an agent by ?id= (soft delete: the agent is disabled and its history kept)
+router.delete("/", async (req, res) => {
+    try {
+        const { id } = req.query;
+        if (!id) return res.status(400).json({ ok: false, error: "Missing id" });
 
-    // Only allow updating certain fields
-    const allowedFields: (keyof Agent)[] = ["name", "description", "gemini_voice", "system_prompt", "model", "mcp_servers"];
-    const sanitizedUpdates: Partial<Agent> = {};
-    for (const field of allowedFields) {
-      if (field in updates) sanitizedUpdates[field] = updates[field];
+        const agent = await agentConfigStore.disable(id.toString());
+        res.json({ ok: true, agent });
+    } catch (err: any) {
+        sendError(res, err);
     }
+});
 
-    const result = await db
-      .collection<Agent>("agent_config")
-      .findOneAndUpdate(
-        { agent_id },
-        { $set: sanitizedUpdates },
-        { returnDocument: "after" }
-      );
+// POST re-enable an agent disabled by DELETE
+router.post("/:agent_id/enable", async (req, res) => {
+    try {
+        const agent = await agentConfigStore.enable(req.params.agent_id);
+        res.json({ ok: true, agent });
+    } catch (err: any) {
+        sendError(res, err);
+    }
+});
 
-    if (!result) {
-        return res.status(404).json({ ok: false, error: "Agent not found" });}
+// POST copy an agent under a new agent_id: { "agent_id": <new id>, ...fields to override, e.g. "name" }
+router.post("/:agent_id/clone", async (req, res) => {
+    try {
+        const { agent_id: newAgentId, ...overrides } = (req.body ?? {}) as Partial<AgentConfig>;
+        if (!newAgentId) return res.status(400).json({ ok: false, error: "Missing agent_id for the clone" });
 
-    res.json({ ok: true, agent: result });
+        const agent = await agentConfigStore.clone(req.params.agent_id, newAgentId, overrides);
+        res.status(201).json({ ok: true, agent });
+    } catch (err: any) {
+        sendError(res, err);
+    }
+});
 
-  } catch (err: any) {
-    res.status(500).json({ ok: false, error: err.message });
-  }
+// GET an agent's access rules; an agent without rules is open to everyone
+router.get("/:agent_id/access", async (req, res) => {
+    try {
+        const agent = await agentConfigStore.get(req.params.agent_id);
+        if (!agent) return res.status(404).json({ ok: false, error: "Agent not found" });
+        res.json({ ok: true, agent_id: agent.agent_id, access: agent.access ?? null });
+    } catch (err: any) {
+        sendError(res, err);
+    }
+});
+
+// PUT replace an agent's access rules: { "allow": {...}, "deny": {...}, "allow_override": <bool> }
+// An empty body removes every rule. The change is stored as a new version.
+router.put("/:agent_id/access", async (req, res) => {
+    try {
+        const access = req.body ?? {};
+        const agent = await agentConfigStore.update(req.params.agent_id, {
+            access: Object.keys(access).length ? access : null,
+        });
+        res.json({ ok: true, agent_id: agent.agent_id, access: agent.access ?? null, version: agent.version });
+    } catch (err: any) {
+        sendError(res, err);
+    }
+});
+
+// GET the versions of an agent, newest first
+router.get("/:agent_id/versions", async (req, res) => {
+    try {
+        const versions = await agentConfigStore.listVersions(req.params.agent_id);
+        if (versions.length === 0) return res.status(404).json({ ok: false, error: "No versions found" });
+        res.json({ ok: true, versions });
+    } catch (err: any) {
+        sendError(res, err);
+    }
+});
+
+// GET one version of an agent, including its config
+router.get("/:agent_id/versions/:version", async (req, res) => {
+    try {
+        const version = parseVersion(req.params.version);
+        if (!version) return res.status(400).json({ ok: false, error: "Invalid version" });
+
+        const found = await agentConfigStore.getVersion(req.params.agent_id, version);
+        if (!found) return res.status(404).json({ ok: false, error: "Version not found" });
+        res.json({ ok: true, version: found });
+    } catch (err: any) {
+        sendError(res, err);
+    }
+});
+
+// GET the changes between two versions: ?from=<version>&to=<version>, where `to` defaults to the current version
+router.get("/:agent_id/diff", async (req, res) => {
+    try {
+        const { agent_id } = req.params;
+        const from = parseVersion(req.query.from);
+        if (!from) return res.status(400).json({ ok: false, error: "Missing or invalid 'from' version" });
+
+        let to = req.query.to != null ? parseVersion(req.query.to) : null;
+        if (req.query.to != null && !to) return res.status(400).json({ ok: false, error: "Invalid 'to' version" });
+        if (!to) {
+            const current = await agentConfigStore.get(agent_id);
+            if (!current) return res.status(404).json({ ok: false, error: "Agent not found" });
+            if (current.version == null) return res.status(404).json({ ok: false, error: "Agent has no versions" });
+            to = current.version;
+        }
+
+        const [a, b] = await Promise.all([
+            agentConfigStore.getVersion(agent_id, from),
+            agentConfigStore.getVersion(agent_id, to),
+        ]);
+        if (!a || !b) return res.status(404).json({ ok: false, error: `Version ${!a ? from : to} not found` });
+
+        res.json({ ok: true, from, to, changes: diffConfigs(a.config, b.config) });
+    } catch (err: any) {
+        sendError(res, err);
+    }
+});
+
+// POST roll an agent back to an earlier version: { "version": <number> }
+// The restored config becomes a new version, so the rollback itself can be undone.
+router.post("/:agent_id/rollback", async (req, res) => {
+    try {
+        const version = parseVersion(req.body?.version);
+        if (!version) return res.status(400).json({ ok: false, error: "Missing or invalid version" });
+
+        const agent = await agentConfigStore.rollback(req.params.agent_id, version);
+        res.json({ ok: true, agent });
+    } catch (err: any) {
+        sendError(res, err);
+    }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,204 @@
+import { Ajv } from 'ajv';
+import type { ErrorObject } from 'ajv';
+import { checkSchema } from '../orchestrator/structuredOutput.js';
+import type { AgentConfig } from './factory/index.js';
+
+/** Fields managed by the server; they are ignored in request bodies and never versioned. */
+export const SERVER_MANAGED_FIELDS = ['_id', 'version', 'created_at', 'updated_at', 'disabled', 'disabled_at'] as const;
+
+const positiveInteger = { type: 'integer', minimum: 1 };
+const nonEmptyString = { type: 'string', minLength: 1 };
+const accessList = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    user_ids: { type: 'array', items: { type: ['string', 'integer'] } },
+    chat_ids: { type: 'array', items: { type: ['string', 'integer'] } },
+    sources: { type: 'array', items: nonEmptyString },
+  },
+};
+const bucketLimit = {
+  type: 'object',
+  required: ['per_minute'],
+  additionalProperties: false,
+  properties: {
+    per_minute: { type: 'number', minimum: 0 },
+    burst: positiveInteger,
+  },
+};
+
+/**
+ * JSON Schema for `AgentConfig`, shared by the agents router and anything else
+ * that writes agent configs. Unknown top-level fields are rejected, so typos such
+ * as `systemPrompt` fail loudly instead of being silently ignored.
+ */
+export const AGENT_CONFIG_SCHEMA = {
+  type: 'object',
+  required: ['agent_id', 'name', 'system_prompt'],
+  additionalProperties: false,
+  properties: {
+    agent_id: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' },
+    name: nonEmptyString,
+    description: { type: 'string' },
+    system_prompt: nonEmptyString,
+    model: nonEmptyString,
+    fallback_models: { type: 'array', items: nonEmptyString },
+    gemini_voice: nonEmptyString,
+    mcp_servers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['url', 'api_key', 'allowed_tools'],
+        additionalProperties: false,
+        properties: {
+          name: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' },
+          url: { type: 'string', pattern: '^https?://' },
+          api_key: { type: 'string' },
+          allowed_tools: { type: 'array', items: nonEmptyString },
+          require_confirmation: { type: 'array', items: nonEmptyString },
+        },
+      },
+    },
+    streaming: { type: 'boolean' },
+    stream_edit_interval_ms: { type: 'integer', minimum: 0 },
+    tool_execution: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        concurrency: positiveInteger,
+        tool_timeout_ms: positiveInteger,
+        overall_timeout_ms: positiveInteger,
+        tool_timeouts: { type: 'object', additionalProperties: positiveInteger },
+      },
+    },
+    limits: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        max_llm_turns: positiveInteger,
+        max_tool_calls: { type: 'integer', minimum: 0 },
+        max_total_tokens: positiveInteger,
+      },
+    },
+    context: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        max_tokens: positiveInteger,
+        recent_share: { type: 'number', minimum: 0, maximum: 1 },
+        keep_binary_turns: { type: 'integer', minimum: 0 },
+        summary_model: nonEmptyString,
+      },
+    },
+    context_providers: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        max_tokens: positiveInteger,
+        providers: {
+          type: 'object',
+          additionalProperties: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              enabled: { type: 'boolean' },
+              priority: { type: 'number' },
+              max_tokens: positiveInteger,
+            },
+          },
+        },
+      },
+    },
+    response_format: {
+      type: 'object',
+      required: ['schema'],
+      additionalProperties: false,
+      properties: {
+        name: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' },
+        schema: { type: 'object' },
+        strict: { type: 'boolean' },
+        max_retries: { type: 'integer', minimum: 0 },
+      },
+    },
+    delegation: {
+      type: 'object',
+      required: ['allowed_agents'],
+      additionalProperties: false,
+      properties: {
+        allowed_agents: { type: 'array', items: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' } },
+        max_depth: positiveInteger,
+      },
+    },
+    progress: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        enabled: { type: 'boolean' },
+        locale: { type: 'string', pattern: '^[A-Za-z]{2,3}([-_][A-Za-z0-9]+)*$' },
+        templates: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            retrieving_context: { type: 'string' },
+            resolving_tools: { type: 'string' },
+            thinking: { type: 'string' },
+          },
+        },
+        tool_messages: { type: 'object', additionalProperties: { type: 'string' } },
+        disabled_channels: { type: 'array', items: nonEmptyString },
+        min_interval_ms: { type: 'integer', minimum: 0 },
+      },
+    },
+    access: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        allow: accessList,
+        deny: accessList,
+        allow_override: { type: 'boolean' },
+        denied_message: nonEmptyString,
+      },
+    },
+    rate_limits: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        user: bucketLimit,
+        agent: bucketLimit,
+        user_daily_tokens: { type: 'integer', minimum: 0 },
+        agent_daily_tokens: { type: 'integer', minimum: 0 },
+        exceeded_message: nonEmptyString,
+      },
+    },
+    session_timeout_hours: { type: 'number', exclusiveMinimum: 0 },
+  },
+} as const;
+
+const ajv = new Ajv({ allErrors: true });
+const validate = ajv.compile(AGENT_CONFIG_SCHEMA);
+
+function describe(error: ErrorObject): string {
+  const path = error.instancePath || '/';
+  if (error.keyword === 'additionalProperties') return `${path} has unknown field "${error.params.additionalProperty}"`;
+  return `${path} ${error.message}`;
+}
+
+/** The config without server-managed fields such as `_id` and `version`. */
+export function stripServerFields<T extends Record<string, any>>(config: T): AgentConfig {
+  const copy: Record<string, any> = { ...config };
+  for (const field of SERVER_MANAGED_FIELDS) delete copy[field];
+  return copy as AgentConfig;
+}
+
+/**
+ * Validate a complete agent config.
+ *
+ * @returns The list of problems, empty if the config is valid.
+ */
+export function validateAgentConfig(config: unknown): string[] {
+  if (!validate(config)) return (validate.errors ?? []).map(describe);
+
+  const schema = (config as AgentConfig).response_format?.schema;
+  const schemaError = schema ? checkSchema(schema) : null;
+  return schemaError ? [schemaError] : [];
+}
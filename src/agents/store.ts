@@ -0,0 +1,305 @@
+import type { Collection, Db } from 'mongodb';
+import { getDb } from '../clients/mongodb.js';
+import type { AgentConfig } from './factory/index.js';
+import { stripServerFields, validateAgentConfig } from './schema.js';
+import { agentConfigCache } from '../cache/caches.js';
+
+/**
+ * How a version came about. `baseline` records the config of an agent that
+ * existed before versioning, the first time it is changed.
+ */
+export type AgentConfigChange = 'create' | 'update' | 'rollback' | 'baseline';
+
+/** Immutable snapshot of an agent config, stored in `agent_config_versions`. */
+export interface AgentConfigVersion {
+  agent_id: string;
+  version: number;
+  config: AgentConfig;
+  change: AgentConfigChange;
+  /** For rollbacks, the version whose config was restored. */
+  restored_from?: number;
+  created_at: Date;
+}
+
+/**
+ * Current config as stored in `agent_config`, with the version it matches.
+ * `disabled` marks a soft-deleted agent; it is not part of the versioned config.
+ */
+export type StoredAgentConfig = AgentConfig & {
+  version?: number;
+  created_at?: Date;
+  updated_at?: Date;
+  disabled?: boolean;
+  disabled_at?: Date;
+};
+
+/** One changed field between two configs, addressed by a dotted path. */
+export interface ConfigDiffEntry {
+  path: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+/** Failure the agents router turns into an HTTP error. */
+export class AgentConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly details?: string[],
+  ) {
+    super(message);
+    this.name = 'AgentConfigError';
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Field-level differences from `from` to `to`. Objects are compared key by key;
+ * arrays and scalars are compared as whole values.
+ */
+export function diffConfigs(from: Record<string, any>, to: Record<string, any>, prefix: string = ''): ConfigDiffEntry[] {
+  const entries: ConfigDiffEntry[] = [];
+  const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+
+  for (const key of keys) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const a = from[key];
+    const b = to[key];
+    if (isPlainObject(a) && isPlainObject(b)) {
+      entries.push(...diffConfigs(a, b, path));
+    } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+      entries.push({
+        path,
+        ...(a !== undefined && { from: a }),
+        ...(b !== undefined && { to: b }),
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * Agent configs with history. `agent_config` holds the current config of each
+ * agent; every change is also written as a new immutable version to
+ * `agent_config_versions`, whose unique `(agent_id, version)` index makes
+ * concurrent writers conflict instead of overwriting each other.
+ * Every write invalidates the agent's entry in `agentConfigCache`.
+ */
+export class AgentConfigStore {
+  private indexesReady: Promise<void> | null = null;
+
+  /**
+   * Create the unique indexes on `agent_config.agent_id` and
+   * `agent_config_versions.(agent_id, version)`. Called at startup; safe to repeat.
+   */
+  public async ensureIndexes(): Promise<void> {
+    this.indexesReady ??= (async () => {
+      const db: Db = await getDb();
+      await db.collection('agent_config').createIndex({ agent_id: 1 }, { unique: true });
+      await db.collection('agent_config_versions').createIndex({ agent_id: 1, version: -1 }, { unique: true });
+    })().catch(err => {
+      this.indexesReady = null;
+      throw err;
+    });
+    return this.indexesReady;
+  }
+
+  private async collections(): Promise<{ configs: Collection<StoredAgentConfig>; versions: Collection<AgentConfigVersion> }> {
+    const db: Db = await getDb();
+    await this.ensureIndexes();
+    return {
+      configs: db.collection<StoredAgentConfig>('agent_config'),
+      versions: db.collection<AgentConfigVersion>('agent_config_versions'),
+    };
+  }
+
+  public async get(agentId: string): Promise<StoredAgentConfig | null> {
+    const { configs } = await this.collections();
+    return configs.findOne({ agent_id: agentId });
+  }
+
+  /** Validate and store a new agent as version 1. */
+  public async create(input: Record<string, any>): Promise<StoredAgentConfig> {
+    const config = stripServerFields(input);
+    const problems = validateAgentConfig(config);
+    if (problems.length) throw new AgentConfigError('Invalid agent config', 400, problems);
+
+    const { configs, versions } = await this.collections();
+    if (await configs.findOne({ agent_id: config.agent_id })) {
+      throw new AgentConfigError('Agent with this agent_id already exists', 409);
+    }
+
+    await this.insertVersion(versions, { agent_id: config.agent_id, version: 1, config, change: 'create', created_at: new Date() });
+    const now = new Date();
+    const stored: StoredAgentConfig = { ...config, version: 1, created_at: now, updated_at: now };
+    try {
+      await configs.insertOne({ ...stored });
+    } catch (err: any) {
+      if (err.code === 11000) throw new AgentConfigError('Agent with this agent_id already exists', 409);
+      throw err;
+    }
+    agentConfigCache.delete(config.agent_id);
+    return stored;
+  }
+
+  /**
+   * Copy the current config of an agent to a new agent, which starts at version 1.
+   * `overrides` may set fields of the copy, such as its name.
+   */
+  public async clone(agentId: string, newAgentId: string, overrides: Record<string, any> = {}): Promise<StoredAgentConfig> {
+    const source = await this.get(agentId);
+    if (!source) throw new AgentConfigError('Agent not found', 404);
+
+    const config: Record<string, any> = { ...stripServerFields(source), ...stripServerFields(overrides), agent_id: newAgentId };
+    if (overrides.name == null) config.name = `${source.name} (copy)`;
+    return this.create(config);
+  }
+
+  /**
+   * Soft-delete an agent: it stays in `agent_config` with its history, but
+   * `AgentFactory.get` refuses to load it. Disabling an already disabled agent is a no-op.
+   */
+  public async disable(agentId: string): Promise<StoredAgentConfig> {
+    const { configs } = await this.collections();
+    const current = await configs.findOne({ agent_id: agentId });
+    if (!current) throw new AgentConfigError('Agent not found', 404);
+    if (current.disabled) return current;
+
+    const disabled = await configs.findOneAndUpdate(
+      { agent_id: agentId },
+      { $set: { disabled: true, disabled_at: new Date() } },
+      { returnDocument: 'after' }
+    );
+    if (!disabled) throw new AgentConfigError('Agent not found', 404);
+    agentConfigCache.delete(agentId);
+
+    console.log(`🗑️ Agent ${agentId} disabled`);
+    return disabled;
+  }
+
+  /**
+   * Undo `disable`: the agent can be loaded and run again. Enabling an agent
+   * that is not disabled is a no-op.
+   */
+  public async enable(agentId: string): Promise<StoredAgentConfig> {
+    const { configs } = await this.collections();
+    const current = await configs.findOne({ agent_id: agentId });
+    if (!current) throw new AgentConfigError('Agent not found', 404);
+    if (!current.disabled) return current;
+
+    const enabled = await configs.findOneAndUpdate(
+      { agent_id: agentId },
+      { $unset: { disabled: '', disabled_at: '' } },
+      { returnDocument: 'after' }
+    );
+    if (!enabled) throw new AgentConfigError('Agent not found', 404);
+    agentConfigCache.delete(agentId);
+
+    console.log(`♻️ Agent ${agentId} enabled`);
+    return enabled;
+  }
+
+  /**
+   * Apply a partial update; fields set to `null` are removed. The merged config
+   * is validated and stored as a new version. An update that changes nothing
+   * returns the current config without creating a version.
+   */
+  public async update(agentId: string, updates: Record<string, any>): Promise<StoredAgentConfig> {
+    const current = await this.get(agentId);
+    if (!current) throw new AgentConfigError('Agent not found', 404);
+
+    const merged: Record<string, any> = { ...stripServerFields(current) };
+    for (const [key, value] of Object.entries(stripServerFields(updates))) {
+      if (key === 'agent_id') continue;
+      if (value === null) delete merged[key];
+      else merged[key] = value;
+    }
+    return this.commit(current, merged as AgentConfig, 'update');
+  }
+
+  /** Restore the config of `version` as a new version. */
+  public async rollback(agentId: string, version: number): Promise<StoredAgentConfig> {
+    const current = await this.get(agentId);
+    if (!current) throw new AgentConfigError('Agent not found', 404);
+
+    const target = await this.getVersion(agentId, version);
+    if (!target) throw new AgentConfigError(`Version ${version} not found`, 404);
+    return this.commit(current, target.config, 'rollback', version);
+  }
+
+  /** Versions of an agent, newest first, without their configs. */
+  public async listVersions(agentId: string): Promise<Omit<AgentConfigVersion, 'config'>[]> {
+    const { versions } = await this.collections();
+    return versions
+      .find({ agent_id: agentId }, { projection: { _id: 0, config: 0 } })
+      .sort({ version: -1 })
+      .toArray();
+  }
+
+  public async getVersion(agentId: string, version: number): Promise<AgentConfigVersion | null> {
+    const { versions } = await this.collections();
+    return versions.findOne({ agent_id: agentId, version }, { projection: { _id: 0 } });
+  }
+
+  private async commit(
+    current: StoredAgentConfig,
+    next: AgentConfig,
+    change: AgentConfigChange,
+    restoredFrom?: number
+  ): Promise<StoredAgentConfig> {
+    const problems = validateAgentConfig(next);
+    if (problems.length) throw new AgentConfigError('Invalid agent config', 400, problems);
+
+    const previous = stripServerFields(current);
+    if (diffConfigs(previous, next).length === 0) return current;
+
+    const { configs, versions } = await this.collections();
+    let baseVersion = current.version;
+    if (baseVersion == null) {
+      // Agent created before versioning: keep what it looked like before this change
+      await this.insertVersion(versions, { agent_id: current.agent_id, version: 1, config: previous, change: 'baseline', created_at: current.created_at ?? new Date() });
+      baseVersion = 1;
+    }
+
+    const version = baseVersion + 1;
+    await this.insertVersion(versions, {
+      agent_id: current.agent_id,
+      version,
+      config: next,
+      change,
+      ...(restoredFrom != null && { restored_from: restoredFrom }),
+      created_at: new Date(),
+    });
+
+    const stored: StoredAgentConfig = {
+      ...next,
+      version,
+      ...(current.created_at && { created_at: current.created_at }),
+      updated_at: new Date(),
+      ...(current.disabled && { disabled: current.disabled, disabled_at: current.disabled_at }),
+    };
+    const result = await configs.replaceOne(
+      { agent_id: current.agent_id, version: current.version ?? { $exists: false } },
+      stored
+    );
+    agentConfigCache.delete(current.agent_id);
+    if (result.matchedCount === 0) throw new AgentConfigError('Agent was modified concurrently; retry the request', 409);
+
+    console.log(`🗂️ Agent ${current.agent_id} is now at version ${version} (${change})`);
+    return stored;
+  }
+
+  private async insertVersion(versions: Collection<AgentConfigVersion>, doc: AgentConfigVersion): Promise<void> {
+    try {
+      await versions.insertOne({ ...doc });
+    } catch (err: any) {
+      if (err.code === 11000) throw new AgentConfigError('Agent was modified concurrently; retry the request', 409);
+      throw err;
+    }
+  }
+}
+
+export const agentConfigStore = new AgentConfigStore();
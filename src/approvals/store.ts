@@ -0,0 +1,167 @@
+import type { Client, Row } from '@libsql/client';
+import type { ToolCall } from '../clients/llm.js';
+import { runMigrations, Migration } from '../utils/migrations.js';
+import { conversationStore } from '../clients/conversationStore.js';
+import { TursoClient } from '../clients/turso.js';
+
+export type ApprovalStatus = 'pending' | 'approved' | 'denied' | 'expired';
+
+/**
+ * Tool calls of one assistant turn held back until the user approves them.
+ * Timestamps are unix milliseconds.
+ */
+export interface ToolApproval {
+  id: string;
+  session_id: string;
+  agent_id: string;
+  user_id: string | null;
+  tool_calls: ToolCall[];
+  status: ApprovalStatus;
+  expires_at: number;
+  created_at: number;
+  resolved_at: number | null;
+}
+
+export type NewToolApproval = Pick<ToolApproval, 'id' | 'session_id' | 'agent_id' | 'user_id' | 'tool_calls' | 'expires_at'>;
+
+export interface ApprovalStore {
+  create(approval: NewToolApproval): Promise<ToolApproval>;
+  /** The session's most recent pending approval, expired or not. */
+  getPending(sessionId: string): Promise<ToolApproval | null>;
+  /**
+   * Move a pending approval to its final status. Returns false if it was no
+   * longer pending, so two events can never both act on it.
+   */
+  resolve(id: string, status: Exclude<ApprovalStatus, 'pending'>): Promise<boolean>;
+}
+
+const APPROVAL_MIGRATIONS: Migration[] = [
+  {
+    id: 'tool_approvals_001_create',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS tool_approvals (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        agent_id TEXT NOT NULL,
+        user_id TEXT,
+        tool_calls TEXT NOT NULL,
+        status TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        resolved_at INTEGER
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_tool_approvals_session ON tool_approvals (session_id, status)`,
+    ],
+  },
+];
+
+function toToolApproval(row: Row): ToolApproval {
+  return {
+    id: String(row.id),
+    session_id: String(row.session_id),
+    agent_id: String(row.agent_id),
+    user_id: row.user_id != null ? String(row.user_id) : null,
+    tool_calls: JSON.parse(String(row.tool_calls)),
+    status: String(row.status) as ApprovalStatus,
+    expires_at: Number(row.expires_at),
+    created_at: Number(row.created_at),
+    resolved_at: row.resolved_at != null ? Number(row.resolved_at) : null,
+  };
+}
+
+/**
+ * Approvals persisted in the same libSQL database as conversation history, so
+ * the user can answer after a restart or on another instance.
+ */
+export class LibsqlApprovalStore implements ApprovalStore {
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(private db: Client) {}
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = runMigrations(this.db, APPROVAL_MIGRATIONS)
+        .then(() => undefined)
+        .catch((err) => {
+          this.schemaReady = null;
+          throw err;
+        });
+    }
+    return this.schemaReady;
+  }
+
+  public async create(approval: NewToolApproval): Promise<ToolApproval> {
+    await this.ensureSchema();
+    const record: ToolApproval = { ...approval, status: 'pending', created_at: Date.now(), resolved_at: null };
+    await this.db.execute({
+      sql: `
+        INSERT INTO tool_approvals (id, session_id, agent_id, user_id, tool_calls, status, expires_at, created_at)
+        VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)
+      `,
+      args: [
+        record.id, record.session_id, record.agent_id, record.user_id,
+        JSON.stringify(record.tool_calls), record.expires_at, record.created_at,
+      ],
+    });
+    return record;
+  }
+
+  public async getPending(sessionId: string): Promise<ToolApproval | null> {
+    await this.ensureSchema();
+    const res = await this.db.execute({
+      sql: `SELECT * FROM tool_approvals WHERE session_id = ? AND status = 'pending' ORDER BY created_at DESC LIMIT 1`,
+      args: [sessionId],
+    });
+    return res.rows[0] ? toToolApproval(res.rows[0]) : null;
+  }
+
+  public async resolve(id: string, status: Exclude<ApprovalStatus, 'pending'>): Promise<boolean> {
+    await this.ensureSchema();
+    const res = await this.db.execute({
+      sql: `UPDATE tool_approvals SET status = ?, resolved_at = ? WHERE id = ? AND status = 'pending'`,
+      args: [status, Date.now(), id],
+    });
+    return res.rowsAffected > 0;
+  }
+}
+
+/**
+ * Process-local approvals for offline development and tests.
+ */
+export class InMemoryApprovalStore implements ApprovalStore {
+  private approvals = new Map<string, ToolApproval>();
+
+  public async create(approval: NewToolApproval): Promise<ToolApproval> {
+    const record: ToolApproval = { ...approval, status: 'pending', created_at: Date.now(), resolved_at: null };
+    this.approvals.set(record.id, record);
+    return { ...record };
+  }
+
+  public async getPending(sessionId: string): Promise<ToolApproval | null> {
+    let latest: ToolApproval | null = null;
+    for (const approval of this.approvals.values()) {
+      if (approval.session_id !== sessionId || approval.status !== 'pending') continue;
+      if (!latest || approval.created_at >= latest.created_at) latest = approval;
+    }
+    return latest ? { ...latest } : null;
+  }
+
+  public async resolve(id: string, status: Exclude<ApprovalStatus, 'pending'>): Promise<boolean> {
+    const approval = this.approvals.get(id);
+    if (approval?.status !== 'pending') return false;
+    approval.status = status;
+    approval.resolved_at = Date.now();
+    return true;
+  }
+}
+
+/**
+ * Use the conversation store's libSQL database when there is one, else memory.
+ */
+export function createApprovalStore(): ApprovalStore {
+  return conversationStore instanceof TursoClient
+    ? new LibsqlApprovalStore(conversationStore.client)
+    : new InMemoryApprovalStore();
+}
+
+export const approvalStore: ApprovalStore = createApprovalStore();
@@ -0,0 +1,48 @@
+import { Router } from "express";
+import type { Response } from "express";
+import { apiKeyStore, ApiKeyError } from "./store.js";
+
+const router = Router();
+
+/**
+ * Send an error response, using the status of an ApiKeyError when there is one.
+ */
+function sendError(res: Response, err: any) {
+    if (err instanceof ApiKeyError) return res.status(err.status).json({ ok: false, error: err.message });
+    res.status(500).json({ ok: false, error: err.message });
+}
+
+// GET every API key, newest first; hashes are never returned
+router.get("/", async (_req, res) => {
+    try {
+        const keys = await apiKeyStore.list();
+        res.json({ ok: true, keys });
+    } catch (err: any) {
+        sendError(res, err);
+    }
+});
+
+// POST create a key: { "name", "scopes": ["events:write", ...], "agent_ids"?: [...], "expires_at"?: <ISO date> }
+// The plain key is only returned in this response.
+router.post("/", async (req, res) => {
+    try {
+        const { key, api_key } = await apiKeyStore.create(req.body ?? {});
+        console.log(`🔑 Created API key "${api_key.name}" (${api_key.key_prefix}…) with scopes ${api_key.scopes.join(', ')}`);
+        res.status(201).json({ ok: true, key, api_key });
+    } catch (err: any) {
+        sendError(res, err);
+    }
+});
+
+// DELETE revoke a key by id
+router.delete("/:id", async (req, res) => {
+    try {
+        const api_key = await apiKeyStore.revoke(req.params.id);
+        console.log(`🔒 Revoked API key "${api_key.name}" (${api_key.key_prefix}…)`);
+        res.json({ ok: true, api_key });
+    } catch (err: any) {
+        sendError(res, err);
+    }
+});
+
+export default router;
@@ -0,0 +1,69 @@
+import type express from 'express';
+import { trace } from '@opentelemetry/api';
+import { CONFIG } from '../utils/config.js';
+import { apiKeyStore, hasScope } from './store.js';
+import type { ApiKeyPrincipal, ApiScope } from './store.js';
+
+/**
+ * The key from the 'x-api-key' header, or from 'Authorization: Bearer <key>'.
+ */
+function readApiKey(req: express.Request): string | undefined {
+  let apiKey = Array.isArray(req.headers['x-api-key'])
+    ? req.headers['x-api-key'][0]
+    : req.headers['x-api-key'];
+
+  if (!apiKey) {
+    const authHeader = Array.isArray(req.headers['authorization'])
+      ? req.headers['authorization'][0]
+      : req.headers['authorization'];
+    if (authHeader?.startsWith('Bearer ')) apiKey = authHeader.substring(7);
+  }
+  return apiKey || undefined;
+}
+
+/**
+ * The key a request was authenticated with, set by `requireScope`.
+ * Undefined when `AUTH_DISABLED` is set.
+ */
+export function requestPrincipal(res: express.Response): ApiKeyPrincipal | undefined {
+  return res.locals.apiKey;
+}
+
+/**
+ * Express middleware that admits requests whose API key grants `scope`.
+ * Sends 401 for a missing, unknown, revoked or expired key and 403 for a key
+ * without the scope. The key's name is logged and recorded on the active span.
+ * Every request is admitted when `AUTH_DISABLED=true`.
+ */
+export function requireScope(scope: ApiScope) {
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (CONFIG.AUTH_DISABLED) return next();
+
+    const apiKey = readApiKey(req);
+    if (!apiKey) return res.status(401).json({ ok: false, error: 'Unauthorized: missing API key' });
+
+    let principal: ApiKeyPrincipal | null;
+    try {
+      principal = await apiKeyStore.authenticate(apiKey);
+    } catch (err: any) {
+      console.error('❌ Failed to check API key:', err);
+      return res.status(500).json({ ok: false, error: 'Failed to check API key' });
+    }
+    if (!principal) return res.status(401).json({ ok: false, error: 'Unauthorized: invalid API key' });
+
+    res.locals.apiKey = principal;
+    trace.getActiveSpan()?.setAttributes({
+      'auth.key_id': principal.id,
+      'auth.key_name': principal.name,
+      'auth.scope': scope,
+    });
+
+    if (!hasScope(principal, scope)) {
+      console.warn(`🚫 API key "${principal.name}" lacks scope ${scope} for ${req.method} ${req.originalUrl}`);
+      return res.status(403).json({ ok: false, error: `Forbidden: API key lacks scope ${scope}` });
+    }
+
+    console.log(`🔑 ${req.method} ${req.originalUrl} by API key "${principal.name}"`);
+    next();
+  };
+}
@@ -0,0 +1,205 @@
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { Collection, Db } from 'mongodb';
+import { getDb } from '../clients/mongodb.js';
+import { CONFIG } from '../utils/config.js';
+import { apiKeyCache } from '../cache/caches.js';
+
+/**
+ * What a key may do. Each route requires one scope; `*` grants all of them.
+ */
+export const API_SCOPES = [
+  'events:write',
+  'events:read',
+  'agents:admin',
+  'sessions:admin',
+  'deliveries:admin',
+  'cache:admin',
+  'keys:admin',
+  'usage:read',
+  '*',
+] as const;
+
+export type ApiScope = typeof API_SCOPES[number];
+
+/** A key as stored in `api_keys`. Only the SHA-256 hash of the key is kept. */
+export interface StoredApiKey {
+  id: string;
+  name: string;
+  key_hash: string;
+  /** First characters of the key, to recognise it in listings. */
+  key_prefix: string;
+  scopes: ApiScope[];
+  /** Agents the key may send events to; null for any agent. */
+  agent_ids: string[] | null;
+  expires_at: Date | null;
+  created_at: Date;
+  revoked_at: Date | null;
+}
+
+/** A key as shown by the admin routes. */
+export type ApiKeyView = Omit<StoredApiKey, 'key_hash'>;
+
+/** The caller a request is attributed to. */
+export interface ApiKeyPrincipal {
+  id: string;
+  name: string;
+  scopes: ApiScope[];
+  agent_ids: string[] | null;
+}
+
+export interface NewApiKey {
+  name: string;
+  scopes: ApiScope[];
+  agent_ids?: string[] | null;
+  expires_at?: string | Date | null;
+}
+
+/** Failure the keys router turns into an HTTP error. */
+export class ApiKeyError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+/** `API_KEY` from the environment, kept as a root key so a fresh deployment can create the others. */
+const ENV_PRINCIPAL: ApiKeyPrincipal = { id: 'env', name: 'env:API_KEY', scopes: ['*'], agent_ids: null };
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function sameHash(a: string, b: string): boolean {
+  const bufA = Buffer.from(a, 'hex');
+  const bufB = Buffer.from(b, 'hex');
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+function toView({ key_hash: _hash, ...view }: StoredApiKey): ApiKeyView {
+  return view;
+}
+
+export function hasScope(principal: ApiKeyPrincipal, scope: ApiScope): boolean {
+  return principal.scopes.includes('*') || principal.scopes.includes(scope);
+}
+
+export function canUseAgent(principal: ApiKeyPrincipal, agentId: string): boolean {
+  return principal.agent_ids == null || principal.agent_ids.includes(agentId);
+}
+
+/**
+ * API keys in the `api_keys` collection. Keys are looked up by their hash, and
+ * lookups are cached in `apiKeyCache`; a revoked key may keep working on other
+ * instances until their cache entry expires.
+ */
+export class ApiKeyStore {
+  private indexesReady: Promise<void> | null = null;
+
+  /** Create the unique indexes on `api_keys.id` and `api_keys.key_hash`. Safe to repeat. */
+  public async ensureIndexes(): Promise<void> {
+    this.indexesReady ??= (async () => {
+      const db: Db = await getDb();
+      await db.collection('api_keys').createIndex({ id: 1 }, { unique: true });
+      await db.collection('api_keys').createIndex({ key_hash: 1 }, { unique: true });
+    })().catch(err => {
+      this.indexesReady = null;
+      throw err;
+    });
+    return this.indexesReady;
+  }
+
+  private async collection(): Promise<Collection<StoredApiKey>> {
+    const db: Db = await getDb();
+    await this.ensureIndexes();
+    return db.collection<StoredApiKey>('api_keys');
+  }
+
+  /**
+   * Create a key. The plain key is returned only here; it cannot be recovered later.
+   */
+  public async create(input: NewApiKey): Promise<{ key: string; api_key: ApiKeyView }> {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name) throw new ApiKeyError('Missing name', 400);
+
+    const scopes = input.scopes;
+    if (!Array.isArray(scopes) || scopes.length === 0) throw new ApiKeyError('Missing scopes', 400);
+    const unknown = scopes.filter(scope => !API_SCOPES.includes(scope));
+    if (unknown.length) throw new ApiKeyError(`Unknown scopes: ${unknown.join(', ')}`, 400);
+
+    const agentIds = input.agent_ids ?? null;
+    if (agentIds != null && (!Array.isArray(agentIds) || agentIds.some(id => typeof id !== 'string' || !id))) {
+      throw new ApiKeyError('agent_ids must be a list of agent ids', 400);
+    }
+
+    let expiresAt: Date | null = null;
+    if (input.expires_at != null) {
+      expiresAt = new Date(input.expires_at);
+      if (Number.isNaN(expiresAt.getTime())) throw new ApiKeyError('Invalid expires_at', 400);
+      if (expiresAt.getTime() <= Date.now()) throw new ApiKeyError('expires_at must be in the future', 400);
+    }
+
+    const key = `ak_${randomBytes(32).toString('base64url')}`;
+    const record: StoredApiKey = {
+      id: uuidv4(),
+      name,
+      key_hash: hashKey(key),
+      key_prefix: key.slice(0, 10),
+      scopes: [...new Set(scopes)],
+      agent_ids: agentIds,
+      expires_at: expiresAt,
+      created_at: new Date(),
+      revoked_at: null,
+    };
+    await (await this.collection()).insertOne({ ...record });
+    return { key, api_key: toView(record) };
+  }
+
+  public async list(): Promise<ApiKeyView[]> {
+    const keys = await (await this.collection())
+      .find({}, { projection: { _id: 0, key_hash: 0 } })
+      .sort({ created_at: -1 })
+      .toArray();
+    return keys as ApiKeyView[];
+  }
+
+  /** Revoke a key for good; revoking it again is a no-op. */
+  public async revoke(id: string): Promise<ApiKeyView> {
+    const keys = await this.collection();
+    const current = await keys.findOne({ id }, { projection: { _id: 0 } });
+    if (!current) throw new ApiKeyError('API key not found', 404);
+    if (current.revoked_at) return toView(current);
+
+    const revoked = await keys.findOneAndUpdate(
+      { id, revoked_at: null },
+      { $set: { revoked_at: new Date() } },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+    apiKeyCache.delete(current.key_hash);
+    return toView(revoked ?? current);
+  }
+
+  /**
+   * The principal for a presented key, or null if it is unknown, revoked or expired.
+   */
+  public async authenticate(key: string): Promise<ApiKeyPrincipal | null> {
+    const hash = hashKey(key);
+    if (CONFIG.API_KEY && sameHash(hash, hashKey(CONFIG.API_KEY))) return ENV_PRINCIPAL;
+
+    const { value: stored } = await apiKeyCache.getOrLoad(
+      hash,
+      async () => (await this.collection()).findOne({ key_hash: hash }, { projection: { _id: 0 } }),
+      found => found !== null
+    );
+    if (!stored || !sameHash(stored.key_hash, hash)) return null;
+    if (stored.revoked_at) return null;
+    if (stored.expires_at && new Date(stored.expires_at).getTime() <= Date.now()) return null;
+
+    return { id: stored.id, name: stored.name, scopes: stored.scopes, agent_ids: stored.agent_ids };
+  }
+}
+
+export const apiKeyStore = new ApiKeyStore();
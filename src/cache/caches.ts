@@ -0,0 +1,35 @@
+import { CONFIG } from '../utils/config.js';
+import { TTLCache } from './ttlCache.js';
+import type { CacheStats } from './ttlCache.js';
+import type { StoredAgentConfig } from '../agents/store.js';
+import type { ToolDefinition } from '../orchestrator/toolRegistry.js';
+import type { StoredApiKey } from '../auth/store.js';
+
+/**
+ * Agent configs by `agent_id`, and pinned versions by `agent_id@version`.
+ * Invalidated by every write through `AgentConfigStore`.
+ */
+export const agentConfigCache = new TTLCache<StoredAgentConfig>('agent_config', CONFIG.AGENT_CACHE_TTL_MS);
+
+/** Tool lists per MCP server, keyed by server URL and credentials. */
+export const mcpToolsCache = new TTLCache<ToolDefinition[]>('mcp_tools', CONFIG.MCP_TOOLS_CACHE_TTL_MS);
+
+/** API keys by the hash of the key. Unknown keys are not cached; revoking a key invalidates it. */
+export const apiKeyCache = new TTLCache<StoredApiKey | null>('api_keys', CONFIG.API_KEY_CACHE_TTL_MS);
+
+const caches: TTLCache<any>[] = [agentConfigCache, mcpToolsCache, apiKeyCache];
+
+export function cacheStats(): CacheStats[] {
+  return caches.map(cache => cache.stats());
+}
+
+/**
+ * Clear one cache by name, or all of them.
+ *
+ * @returns The names of the caches that were cleared, empty if `name` is unknown.
+ */
+export function flushCaches(name?: string): string[] {
+  const selected = caches.filter(cache => !name || cache.name === name);
+  for (const cache of selected) cache.clear();
+  return selected.map(cache => cache.name);
+}
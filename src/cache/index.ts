@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { cacheStats, flushCaches } from "./caches.js";
+
+const router = Router();
+
+// GET size and hit/miss counts of every in-process cache
+router.get("/", (_req, res) => {
+    res.json({ ok: true, caches: cacheStats() });
+});
+
+// POST flush every cache, or one by name: { "cache": "agent_config" | "mcp_tools" | "api_keys" }
+router.post("/flush", (req, res) => {
+    const name = req.body?.cache;
+    const flushed = flushCaches(name);
+    if (name && flushed.length === 0) return res.status(404).json({ ok: false, error: `Unknown cache: ${name}` });
+
+    console.log(`🧹 Flushed caches: ${flushed.join(', ')}`);
+    res.json({ ok: true, flushed });
+});
+
+export default router;
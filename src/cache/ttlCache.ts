@@ -0,0 +1,118 @@
+import { metrics } from '@opentelemetry/api';
+
+const meter = metrics.getMeter('agents-service', '1.0.0');
+const lookups = meter.createCounter('cache.lookups', {
+  description: 'In-process cache lookups, by cache name and result (hit or miss)',
+});
+
+interface Entry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  name: string;
+  size: number;
+  hits: number;
+  misses: number;
+  ttl_ms: number;
+}
+
+/**
+ * In-process cache with a TTL per entry and explicit invalidation.
+ *
+ * Concurrent misses for the same key share one load, so a burst of events for
+ * an agent makes a single round trip. Failed loads are not cached. When full,
+ * the oldest entry is evicted. Every lookup is counted in the `cache.lookups` metric.
+ */
+export class TTLCache<V> {
+  private entries = new Map<string, Entry<V>>();
+  private loading = new Map<string, Promise<V>>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    public readonly name: string,
+    private ttlMs: number,
+    private maxEntries: number = 1000,
+  ) {}
+
+  public get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  public set(key: string, value: V): void {
+    if (this.ttlMs <= 0) return;
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+
+  /**
+   * The cached value for `key`, or the result of `load`, which is cached unless
+   * `shouldCache` rejects it (e.g. to avoid caching "not found").
+   */
+  public async getOrLoad(
+    key: string,
+    load: () => Promise<V>,
+    shouldCache: (value: V) => boolean = () => true
+  ): Promise<{ value: V; hit: boolean }> {
+    const cached = this.get(key);
+    if (cached !== undefined) {
+      this.record(true);
+      return { value: cached, hit: true };
+    }
+    this.record(false);
+
+    let pending = this.loading.get(key);
+    if (!pending) {
+      pending = load()
+        .then(value => {
+          // An invalidation while loading drops the load marker; don't cache a stale result
+          if (this.loading.get(key) === pending && shouldCache(value)) this.set(key, value);
+          return value;
+        })
+        .finally(() => {
+          if (this.loading.get(key) === pending) this.loading.delete(key);
+        });
+      this.loading.set(key, pending);
+    }
+    return { value: await pending, hit: false };
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key);
+    this.loading.delete(key);
+  }
+
+  /** Drop every entry whose key starts with `prefix`. */
+  public deletePrefix(prefix: string): void {
+    for (const key of [...this.entries.keys(), ...this.loading.keys()]) {
+      if (key.startsWith(prefix)) this.delete(key);
+    }
+  }
+
+  public clear(): void {
+    this.entries.clear();
+    this.loading.clear();
+  }
+
+  public stats(): CacheStats {
+    return { name: this.name, size: this.entries.size, hits: this.hits, misses: this.misses, ttl_ms: this.ttlMs };
+  }
+
+  private record(hit: boolean): void {
+    if (hit) this.hits++;
+    else this.misses++;
+    lookups.add(1, { 'cache.name': this.name, 'cache.result': hit ? 'hit' : 'miss' });
+  }
+}
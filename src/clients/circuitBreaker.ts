@@ -0,0 +1,57 @@
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface Circuit {
+  failures: number;
+  openedAt: number | null;
+  /** A half-open circuit lets exactly one trial request through. */
+  trialInFlight: boolean;
+}
+
+/**
+ * Per-key circuit breaker. After `failureThreshold` consecutive failures the
+ * circuit opens and `canRequest` returns false for `openMs`; then one trial
+ * request is allowed, whose outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private circuits = new Map<string, Circuit>();
+
+  constructor(
+    private failureThreshold: number = 5,
+    private openMs: number = 60_000,
+  ) {}
+
+  public state(key: string): CircuitState {
+    const circuit = this.circuits.get(key);
+    if (!circuit?.openedAt) return 'closed';
+    return Date.now() - circuit.openedAt >= this.openMs ? 'half_open' : 'open';
+  }
+
+  /** Whether a request may be sent now; claims the trial slot of a half-open circuit. */
+  public canRequest(key: string): boolean {
+    const state = this.state(key);
+    if (state === 'closed') return true;
+    if (state === 'open') return false;
+
+    const circuit = this.circuits.get(key)!;
+    if (circuit.trialInFlight) return false;
+    circuit.trialInFlight = true;
+    return true;
+  }
+
+  public recordSuccess(key: string): void {
+    this.circuits.delete(key);
+  }
+
+  public recordFailure(key: string): void {
+    const circuit = this.circuits.get(key) ?? { failures: 0, openedAt: null, trialInFlight: false };
+    circuit.failures++;
+    if (circuit.trialInFlight || circuit.failures >= this.failureThreshold) {
+      if (!circuit.openedAt || circuit.trialInFlight) {
+        console.warn(`⚡ Circuit for ${key} opened after ${circuit.failures} consecutive failure(s)`);
+      }
+      circuit.openedAt = Date.now();
+    }
+    circuit.trialInFlight = false;
+    this.circuits.set(key, circuit);
+  }
+}
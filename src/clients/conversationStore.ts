@@ -0,0 +1,169 @@
+import { CONFIG } from '../utils/config.js';
+import { TursoClient } from './turso.js';
+import { InMemoryConversationStore } from './memoryStore.js';
+
+export type Role = 'user' | 'assistant' | 'system' | 'tool';
+
+/**
+ * One row of `conversation_history`. `message` holds the serialized `Message`.
+ */
+export interface ConversationRow {
+  id: string;
+  model: string;
+  finish_reason: string | null;
+  role: Role;
+  completion_tokens: number;
+  prompt_tokens: number;
+  total_tokens: number;
+  user_id: string | null;
+  chat_id: string | null;
+  session_id: string | null;
+  agent_id: string | null;
+  timestamp: number;
+  message: string;
+  /** Why the agent loop stopped; set on the row that ended a run. */
+  termination_reason: string | null;
+}
+
+/**
+ * Rolling summary of a session's older turns. `message_count` is the number of
+ * rows, from the start of the session, that the summary replaces.
+ */
+export interface ConversationSummary {
+  session_id: string;
+  summary: string;
+  message_count: number;
+  model: string;
+  created_at: number;
+}
+
+export type SessionStatus = 'active' | 'closed' | 'expired';
+
+/**
+ * One row of `sessions`. Timestamps are unix seconds, like conversation_history.
+ * `summary` mirrors the latest rolling summary of the session's history.
+ */
+export interface SessionRecord {
+  id: string;
+  user_id: string | null;
+  chat_id: string | null;
+  agent_id: string | null;
+  created_at: number;
+  last_active_at: number;
+  status: SessionStatus;
+  title: string | null;
+  summary: string | null;
+}
+
+export interface CreateSessionParams {
+  id: string;
+  user_id?: string;
+  chat_id?: string;
+  agent_id?: string;
+  title?: string;
+}
+
+export interface LogConversationParams {
+  model: string;
+  role: Role;
+  finish_reason?: string | null;
+  completion_tokens?: number;
+  prompt_tokens?: number;
+  total_tokens?: number;
+  user_id?: string;
+  chat_id?: string;
+  session_id?: string;
+  agent_id?: string;
+  message: string;
+  termination_reason?: string | null;
+}
+
+/** What usage can be grouped by; `day` and `week` (starting Monday, UTC) group by `period`. */
+export type UsageDimension = 'agent' | 'user' | 'model' | 'session' | 'day' | 'week';
+
+export interface UsageQuery {
+  /** Unix seconds, inclusive. */
+  since: number;
+  /** Unix seconds, exclusive. */
+  until: number;
+  agent_id?: string;
+  user_id?: string;
+  session_id?: string;
+  group_by: UsageDimension[];
+}
+
+/**
+ * Totals for one group of conversation_history rows. Rows are always split by
+ * model so tokens can be priced; only the grouped fields are set. `llm_turns`
+ * counts assistant replies from the model and `tool_calls` counts tool results.
+ */
+export interface UsageRow {
+  agent_id?: string | null;
+  user_id?: string | null;
+  session_id?: string | null;
+  /** `YYYY-MM-DD` of the day, or of the Monday starting the week. */
+  period?: string;
+  model: string;
+  llm_turns: number;
+  tool_calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * Storage backend for conversation history.
+ * Implementations own their schema and must be usable without any setup call.
+ */
+export interface ConversationStore {
+  logConversation(params: LogConversationParams): Promise<void>;
+  /** All rows of the user's most recent session, oldest first. */
+  getLatestConversationByuser_id(user_id: string): Promise<ConversationRow[]>;
+  /** All rows of a session, oldest first. */
+  getLatestConversationBySessionId(sessionId: string): Promise<ConversationRow[]>;
+  getSession(user_id: string): Promise<{ sessionId: string }>;
+  /** Store a rolling summary and mirror it onto the session record. */
+  saveSummary(summary: Omit<ConversationSummary, 'created_at'>): Promise<void>;
+  getLatestSummary(sessionId: string): Promise<ConversationSummary | null>;
+
+  createSession(params: CreateSessionParams): Promise<SessionRecord>;
+  getSessionById(sessionId: string): Promise<SessionRecord | null>;
+  /** The user's most recently active session, whatever its status. */
+  getLatestSessionByUser(user_id: string): Promise<SessionRecord | null>;
+  /** A user's sessions, most recently active first. */
+  listSessions(filter: { user_id: string; status?: SessionStatus; limit?: number }): Promise<SessionRecord[]>;
+  /** Mark a session active now, optionally recording the agent that handled it. */
+  touchSession(sessionId: string, updates?: { agent_id?: string }): Promise<void>;
+  updateSessionStatus(sessionId: string, status: SessionStatus): Promise<boolean>;
+  /** Delete a session together with its history and summaries. */
+  deleteSession(sessionId: string): Promise<boolean>;
+  /** Sum of `total_tokens` logged since `since` (unix seconds), for a user, an agent, or both. */
+  getTokenUsage(filter: { user_id?: string; agent_id?: string; since: number }): Promise<number>;
+  /** Token, turn and tool call totals in a time range, grouped by `group_by` and model. */
+  getUsage(query: UsageQuery): Promise<UsageRow[]>;
+}
+
+export type ConversationStoreBackend = 'turso' | 'sqlite' | 'memory';
+
+/**
+ * Create the store selected by `CONFIG.CONVERSATION_STORE`:
+ * - `turso`: remote libSQL at `TURSO_URL` (default)
+ * - `sqlite`: local SQLite file at `SQLITE_PATH`
+ * - `memory`: process-local, lost on restart
+ */
+export function createConversationStore(
+  backend: ConversationStoreBackend = CONFIG.CONVERSATION_STORE as ConversationStoreBackend
+): ConversationStore {
+  switch (backend) {
+    case 'memory':
+      return new InMemoryConversationStore();
+    case 'sqlite':
+      return new TursoClient({ url: `file:${CONFIG.SQLITE_PATH}` });
+    case 'turso':
+      return new TursoClient({ url: CONFIG.TURSO_URL!, authToken: CONFIG.TURSO_AUTH_TOKEN });
+    default:
+      throw new Error(`Unknown CONVERSATION_STORE backend: ${backend}`);
+  }
+}
+
+export const conversationStore: ConversationStore = createConversationStore();
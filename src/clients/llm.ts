@@ -1,7 +1,10 @@
 import { CONFIG } from "../utils/config.js";
 import { getCurrentDateTimeSG } from "../utils/getCurrentDateTimeSG.js"; // 👈 import your util
+import { createProviders, resolveModel, LLMProviderError } from "./providers/index.js";
+import type { ChatCompletion, ChatRequest, JsonSchemaFormat, LLMProvider, LLMTool } from "./providers/index.js";
 // --- ADDED TRACING IMPORTS ---
-import { trace, SpanStatusCode, Tracer } from '@opentelemetry/api';
+import { trace, Span, SpanStatusCode, Tracer } from '@opentelemetry/api';
+import { CircuitBreaker } from "./circuitBreaker.js";
 
 const tracer: Tracer = trace.getTracer('agents-service', '1.0.0');
 // ----------------------------
@@ -12,43 +15,88 @@ const tracer: Tracer = trace.getTracer('agents-service', '1.0.0');
  */
 export type MessageType = "text" | "image_url" | "input_audio";
 
+/** Attempts per model before falling back to the next one. */
+const MAX_ATTEMPTS_PER_MODEL = 3;
+/** Longer `Retry-After` waits move on to the next model instead. */
+const MAX_RETRY_AFTER_MS = 10_000;
+
 /**
- * Ensure API key is available at startup
+ * Network failures, timeouts, rate limits and server errors may succeed on retry;
+ * other HTTP errors will not.
  */
-if (!CONFIG.LLM_API_KEY) {
-  throw new Error("LLM_API_KEY environment variable is not set");
+function isRetryableError(err: unknown): boolean {
+  if (err instanceof LLMProviderError && err.status != null) {
+    return err.status === 408 || err.status === 429 || err.status >= 500;
+  }
+  return true;
+}
+
+/** A stream failed after deltas were forwarded, so it must not be retried. */
+class StreamInterruptedError extends Error {
+  constructor(public readonly cause: Error) {
+    super(cause.message);
+  }
 }
 
 /**
- * LLMClient — handles communication with your LiteLLM proxy.
+ * Append the current time as a system message.
+ */
+function withCurrentTime(conversation: Conversation): Conversation {
+  const nowString = getCurrentDateTimeSG();
+  const timeSystemMessage: SystemMessage = {
+    role: "system",
+    content: [
+      { type: "text", text: `Current time in Singapore: ${nowString}` }
+    ],
+  };
+  return [...conversation, timeSystemMessage];
+}
+
+/**
+ * LLMClient — routes chat completions to the provider named in the model
+ * (LiteLLM proxy by default) and handles speech through the LiteLLM proxy.
  */
 export class LLMClient {
   private baseUrl: string;
-  private apiKey: string;
+  private apiKey: string | undefined;
+  public readonly providers: Map<string, LLMProvider>;
+  private circuitBreaker: CircuitBreaker;
 
   constructor(
-    baseUrl = "https://royzheng-llm.hf.space",
-    apiKey: string = CONFIG.LLM_API_KEY!
+    baseUrl: string = CONFIG.LLM_BASE_URL,
+    apiKey: string | undefined = CONFIG.LLM_API_KEY,
+    providers: Map<string, LLMProvider> = createProviders(baseUrl, apiKey),
+    circuitBreaker: CircuitBreaker = new CircuitBreaker()
   ) {
     this.baseUrl = baseUrl;
     this.apiKey = apiKey;
+    this.providers = providers;
+    this.circuitBreaker = circuitBreaker;
+  }
+
+  /** The LiteLLM proxy key; only speech and models routed to the proxy need it. */
+  private requireApiKey(): string {
+    if (!this.apiKey) throw new Error("LLM_API_KEY environment variable is not set");
+    return this.apiKey;
   }
 
   /**
-   * Send a full conversation to LiteLLM.
-   * Returns the full JSON response from the model.
+   * Send a full conversation to the model's provider.
+   * `model` may be written as `provider/model` (see `resolveModel`).
+   * When the model keeps failing, each of `fallbackModels` is tried in order.
+   * `responseFormat` asks for JSON matching a schema; the caller validates it.
+   * Returns the completion in the OpenAI chat completion shape, with `model_used`
+   * set to the model that answered.
    */
   async getLLMResponse(
-    { model, conversation, tools }: {
+    { model, fallbackModels = [], conversation, tools, responseFormat }: {
       model: string;
+      fallbackModels?: string[];
       conversation: Conversation;
-      tools?: Array<{
-        name: string;
-        description: string;
-        parameters: Record<string, any>;
-      }>;
+      tools?: LLMTool[];
+      responseFormat?: JsonSchemaFormat;
     }
-  ): Promise<any> {
+  ): Promise<ChatCompletion> {
     // 🌟 SPAN for the chat completion operation
     const result = await tracer.startActiveSpan('LLMClient.chatCompletion', {
         attributes: {
@@ -56,90 +104,81 @@ export class LLMClient {
             'llm.operation': 'chat_completion',
             // Add tool count as an attribute if tools are present
             ...(tools?.length && { 'llm.tool_count': tools.length }),
+            ...(fallbackModels.length && { 'llm.fallback_models': fallbackModels.join(',') }),
+            ...(responseFormat && { 'llm.response_format': responseFormat.name ?? 'json_schema' }),
         }
     }, async (span) => {
         try {
-            const nowString = getCurrentDateTimeSG();
-            const timeSystemMessage: SystemMessage = {
-              role: "system",
-              content: [
-                { type: "text", text: `Current time in Singapore: ${nowString}` }
-              ],
-            };
-        
-            const conversationWithTime = [...conversation, timeSystemMessage];
-            const payload: Record<string, any> = { model, messages: conversationWithTime };
-        
-            if (tools?.length) {
-              payload.tools = tools;
-              console.log(`[LLMClient] Including ${tools.length} tools`);
-            }
-        
-            const maxRetries = 3;
-            let attempt = 0;
-            let lastError: Error | null = null;
-        
-            while (attempt < maxRetries) {
-              attempt++;
+            const data = await this.withFallback(span, [model, ...fallbackModels], (provider, request) =>
+              provider.chat(request), { conversation, tools, responseFormat });
+
+            // ✅ Success → return result and set span status
+            span.setStatus({ code: SpanStatusCode.OK });
+            return data;
+        } catch (err) {
+            // ✅ FIX: Remove the conditional check that caused the TypeScript error.
+            // Unconditionally record and set status to ensure any error is captured.
+            span.recordException(err as Error);
+            span.setStatus({ code: SpanStatusCode.ERROR, message: (err as Error).message });
+            throw err;
+        } finally {
+            span.end();
+        }
+    });
+
+    return result;
+  }
+
+  /**
+   * Send a full conversation to the model's provider as a stream.
+   * Each delta is passed to `onDelta` as it arrives, and the stream is
+   * assembled into the same shape `getLLMResponse` returns, including
+   * streamed tool calls and usage. Retries and fallbacks only happen before
+   * the first delta, since a stream cannot be taken back.
+   */
+  async streamLLMResponse(
+    { model, fallbackModels = [], conversation, tools, responseFormat, onDelta }: {
+      model: string;
+      fallbackModels?: string[];
+      conversation: Conversation;
+      tools?: LLMTool[];
+      responseFormat?: JsonSchemaFormat;
+      onDelta: (delta: LLMStreamDelta) => void;
+    }
+  ): Promise<ChatCompletion> {
+    // 🌟 SPAN for the streamed chat completion operation
+    const result = await tracer.startActiveSpan('LLMClient.chatCompletionStream', {
+        attributes: {
+            'llm.model': model,
+            'llm.operation': 'chat_completion',
+            'llm.stream': true,
+            ...(tools?.length && { 'llm.tool_count': tools.length }),
+            ...(fallbackModels.length && { 'llm.fallback_models': fallbackModels.join(',') }),
+            ...(responseFormat && { 'llm.response_format': responseFormat.name ?? 'json_schema' }),
+        }
+    }, async (span) => {
+        try {
+            let deltaEmitted = false;
+            const data = await this.withFallback(span, [model, ...fallbackModels], async (provider, request) => {
               try {
-                console.log(`[LLMClient] Attempt ${attempt}/${maxRetries} → sending request to ${this.baseUrl}/chat/completions`);
-        
-                const response = await fetch(`${this.baseUrl}/chat/completions`, {
-                  method: "POST",
-                  headers: {
-                    "Content-Type": "application/json",
-                    "Authorization": "Bearer " + this.apiKey,
-                  },
-                  body: JSON.stringify(payload),
+                const completion = await provider.stream(request, (delta) => {
+                  deltaEmitted = true;
+                  onDelta(delta);
                 });
-        
-                if (!response.ok) {
-                  // If response status is bad, throw an Error with details
-                  const errorDetail = `[LLMClient] Request failed: ${response.status} ${response.statusText}`;
-                  // Try to get more detail from the response body if available (optional but helpful)
-                  try {
-                    const errorBody = await response.json();
-                    throw new Error(`${errorDetail} - Body: ${JSON.stringify(errorBody)}`);
-                  } catch {
-                     // If JSON parsing fails, just throw the basic error
-                    throw new Error(errorDetail);
-                  }
-                }
-        
-                const data = await response.json();
-        
-                // ✅ Verify response validity
-                if (!data?.choices?.length || !data.choices[0]?.message) {
-                  throw new Error(`[LLMClient] Invalid LLM response: ${JSON.stringify(data)}`);
+
+                const choice = completion.choices[0];
+                if (!choice.message.content && !choice.message.tool_calls?.length && !choice.finish_reason) {
+                  throw new Error(`[LLMClient] Stream ended without content, tool calls or finish reason`);
                 }
-        
-                // ✅ Success → return result and set span status
-                span.setStatus({ code: SpanStatusCode.OK });
-                return data;
-        
-              } catch (err: any) {
-                lastError = err;
-                console.warn(`⚠️ [LLMClient] Attempt ${attempt} failed: ${err.message}`);
-        
-                // Exponential backoff delay before retry
-                const delayMs = 500 * Math.pow(2, attempt - 1);
-                await new Promise(res => setTimeout(res, delayMs));
+                return completion;
+              } catch (err) {
+                throw deltaEmitted ? new StreamInterruptedError(err as Error) : err;
               }
-            }
-        
-            // ❌ After max retries, throw and set span status to error
-            console.error(`[LLMClient] All ${maxRetries} attempts failed.`);
-            
-            // Record the last failed attempt as the exception for the span
-            if (lastError) {
-                span.recordException(lastError);
-            }
-            span.setStatus({ code: SpanStatusCode.ERROR, message: lastError?.message || "LLM request failed after retries" });
-            throw lastError || new Error("LLM request failed after retries");
+            }, { conversation, tools, responseFormat });
 
+            span.setStatus({ code: SpanStatusCode.OK });
+            return data;
         } catch (err) {
-            // ✅ FIX: Remove the conditional check that caused the TypeScript error.
-            // Unconditionally record and set status to ensure any error is captured.
             span.recordException(err as Error);
             span.setStatus({ code: SpanStatusCode.ERROR, message: (err as Error).message });
             throw err;
@@ -151,6 +190,83 @@ export class LLMClient {
     return result;
   }
 
+  /**
+   * Try each model in turn until one answers.
+   * - Retryable errors (network, 408, 429, 5xx) are retried with exponential backoff,
+   *   waiting for `Retry-After` when it is short enough; a long one moves on to the next model.
+   * - Permanent errors (other 4xx) move on to the next model immediately.
+   * - Models whose circuit is open are skipped. Only retryable errors count toward opening it.
+   */
+  private async withFallback(
+    span: Span,
+    models: string[],
+    send: (provider: LLMProvider, request: ChatRequest) => Promise<ChatCompletion>,
+    { conversation, tools, responseFormat }: Omit<ChatRequest, 'model'>
+  ): Promise<ChatCompletion> {
+    const timedConversation = withCurrentTime(conversation);
+    let lastError: Error | null = null;
+
+    for (const [index, model] of models.entries()) {
+      let resolved: ReturnType<typeof resolveModel>;
+      try {
+        resolved = resolveModel(model, this.providers);
+      } catch (err: any) {
+        console.warn(`⚠️ [LLMClient] Skipping ${model}: ${err.message}`);
+        lastError ??= err;
+        continue;
+      }
+
+      if (!this.circuitBreaker.canRequest(model)) {
+        console.warn(`⚡ [LLMClient] Skipping ${model}: circuit open`);
+        span.addEvent('llm.circuit_open', { 'llm.model': model });
+        lastError ??= new Error(`[LLMClient] Circuit open for ${model}`);
+        continue;
+      }
+
+      const { provider, model: providerModel } = resolved;
+      const request: ChatRequest = { model: providerModel, conversation: timedConversation, tools, responseFormat };
+
+      for (let attempt = 1; attempt <= MAX_ATTEMPTS_PER_MODEL; attempt++) {
+        try {
+          console.log(`[LLMClient] Attempt ${attempt}/${MAX_ATTEMPTS_PER_MODEL} → ${provider.name}/${providerModel}`);
+          const data = await send(provider, request);
+          this.circuitBreaker.recordSuccess(model);
+
+          span.setAttributes({
+            'llm.provider': provider.name,
+            'llm.model_used': model,
+            'llm.fallback_used': index > 0,
+            'llm.attempts': attempt,
+          });
+          return { ...data, model_used: model };
+        } catch (err: any) {
+          if (err instanceof StreamInterruptedError) throw err.cause;
+          lastError = err;
+          const retryable = isRetryableError(err);
+          // A permanent error is about this request; the model answered, so it counts as up
+          if (retryable) this.circuitBreaker.recordFailure(model);
+          else this.circuitBreaker.recordSuccess(model);
+
+          console.warn(`⚠️ [LLMClient] ${model} attempt ${attempt} failed (${retryable ? 'retryable' : 'permanent'}): ${err.message}`);
+          span.addEvent('llm.attempt_failed', { 'llm.model': model, 'llm.attempt': attempt, 'llm.retryable': retryable });
+
+          if (!retryable || attempt === MAX_ATTEMPTS_PER_MODEL || !this.circuitBreaker.canRequest(model)) break;
+
+          const retryAfterMs = err instanceof LLMProviderError ? err.retryAfterMs : undefined;
+          if (retryAfterMs != null && retryAfterMs > MAX_RETRY_AFTER_MS) break;
+          const delayMs = Math.max(500 * Math.pow(2, attempt - 1), retryAfterMs ?? 0);
+          await new Promise(res => setTimeout(res, delayMs));
+        }
+      }
+
+      if (index < models.length - 1) console.warn(`↪️ [LLMClient] Falling back from ${model} to ${models[index + 1]}`);
+    }
+
+    // ❌ Every model failed
+    console.error(`[LLMClient] All models failed: ${models.join(', ')}`);
+    throw lastError || new Error("LLM request failed after retries");
+  }
+
   /**
  * Convert audio input to text using LiteLLM.
  * @param audioData - Base64-encoded audio string
@@ -200,7 +316,7 @@ export class LLMClient {
               method: "POST",
               headers: {
                 "Content-Type": "application/json",
-                "Authorization": "Bearer " + this.apiKey,
+                "Authorization": "Bearer " + this.requireApiKey(),
               },
               body: JSON.stringify(payload),
             });
@@ -271,7 +387,7 @@ export class LLMClient {
               method: "POST",
               headers: {
                 "Content-Type": "application/json",
-                "Authorization": "Bearer " + this.apiKey,
+                "Authorization": "Bearer " + this.requireApiKey(),
               },
               body: JSON.stringify(payload)
             });
@@ -309,7 +425,7 @@ interface FunctionArguments {
   [key: string]: any;
 }
 
-interface ToolCall {
+export interface ToolCall {
   id: string;
   index: number;
   type: "function";
@@ -319,10 +435,25 @@ interface ToolCall {
   };
 }
 
+/**
+ * Incremental output from a streamed completion.
+ * `content` and `thinking` are the new fragments only, not the accumulated text.
+ */
+export interface LLMStreamDelta {
+  content?: string;
+  thinking?: string;
+  tool_calls?: Array<{
+    index: number;
+    id?: string;
+    name?: string;
+    arguments?: string;
+  }>;
+}
+
 /**
  * Thinking Blocks (for models that expose reasoning)
  */
-interface ThinkingBlock {
+export interface ThinkingBlock {
   type: "thinking";
   thinking: string;
 }
@@ -49,7 +49,11 @@ export class MCPClient {
         this.apiKey = apiKey;
     }
 
-    private async request<T = any>(method: string, params?: Record<string, any>): Promise<T> {
+    /**
+     * Send a JSON-RPC request. Aborting `signal` cancels both the HTTP request
+     * and any in-progress read of an SSE response body.
+     */
+    private async request<T = any>(method: string, params?: Record<string, any>, signal?: AbortSignal): Promise<T> {
         const payload = {
             jsonrpc: '2.0',
             id: '1',
@@ -65,6 +69,7 @@ export class MCPClient {
                 'Authorization': 'Bearer ' + this.apiKey,
             },
             body: JSON.stringify(payload),
+            signal,
         });
 
         if (!response.ok) {
@@ -112,7 +117,8 @@ export class MCPClient {
         const data = await tracer.startActiveSpan('MCPClient.listTools', async (span) => {
             try {
                 const data = await this.request<MCPListToolsResponse>('tools/list');
-                console.log(data);
+                console.log(`🧰 Listed ${data.result?.tools?.length ?? 0} tool(s) from ${this.url}`);
+                span.setAttribute('mcp.tool_count', data.result?.tools?.length ?? 0);
                 span.setStatus({ code: SpanStatusCode.OK });
                 return data;
             } catch (err) {
@@ -136,7 +142,7 @@ export class MCPClient {
 
 
     /** Call a specific MCP tool with optional arguments */
-    async callTool(params: MCPCallToolParams): Promise<any> {
+    async callTool(params: MCPCallToolParams, options?: { signal?: AbortSignal }): Promise<any> {
         const { name, arguments: argsRaw } = params;
         
         // 🌟 SPAN for each Tool Call
@@ -149,7 +155,7 @@ export class MCPClient {
         }, async (span) => {
             try {
                 console.log(`In Call Tool`);
-                const data = await this.request<MCPCallToolResponse>('tools/call', params);
+                const data = await this.request<MCPCallToolResponse>('tools/call', params, options?.signal);
                 console.log(`Tool Results: ${data}`);
 
                 if (data.error) {
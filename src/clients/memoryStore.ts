@@ -0,0 +1,186 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  ConversationRow,
+  ConversationStore,
+  ConversationSummary,
+  CreateSessionParams,
+  LogConversationParams,
+  SessionRecord,
+  SessionStatus,
+  UsageQuery,
+  UsageRow,
+} from './conversationStore.js';
+
+/** `YYYY-MM-DD` of a unix-seconds timestamp, or of the Monday starting its week (UTC). */
+function usagePeriod(timestamp: number, dimension: 'day' | 'week'): string {
+  const date = new Date(timestamp * 1000);
+  if (dimension === 'week') date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Process-local ConversationStore. Rows keep insertion order, which breaks
+ * timestamp ties the same way the SQL store does with rowid.
+ * Intended for offline development and tests.
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private rows: ConversationRow[] = [];
+  private summaries: ConversationSummary[] = [];
+  private sessions = new Map<string, SessionRecord>();
+
+  public async logConversation(params: LogConversationParams): Promise<void> {
+    this.rows.push({
+      id: uuidv4(),
+      model: params.model,
+      finish_reason: params.finish_reason ?? '',
+      role: params.role,
+      completion_tokens: params.completion_tokens ?? 0,
+      prompt_tokens: params.prompt_tokens ?? 0,
+      total_tokens: params.total_tokens ?? 0,
+      user_id: params.user_id ?? null,
+      chat_id: params.chat_id ?? null,
+      session_id: params.session_id ?? null,
+      agent_id: params.agent_id ?? null,
+      timestamp: Math.floor(Date.now() / 1000),
+      message: params.message,
+      termination_reason: params.termination_reason ?? null,
+    });
+  }
+
+  public async getLatestConversationByuser_id(user_id: string): Promise<ConversationRow[]> {
+    const latest = this.latestRowForUser(String(user_id));
+    if (!latest?.session_id) return [];
+    return this.getLatestConversationBySessionId(latest.session_id);
+  }
+
+  public async getLatestConversationBySessionId(sessionId: string): Promise<ConversationRow[]> {
+    const sessionIdStr = String(sessionId);
+    return this.rows
+      .filter(r => r.session_id === sessionIdStr)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(r => ({ ...r }));
+  }
+
+  public async getSession(user_id: string): Promise<{ sessionId: string }> {
+    const latest = this.latestRowForUser(String(user_id));
+    if (!latest) throw new Error(`No session found for user ${user_id}`);
+    return { sessionId: String(latest.session_id) };
+  }
+
+  public async saveSummary(summary: Omit<ConversationSummary, 'created_at'>): Promise<void> {
+    this.summaries.push({ ...summary, created_at: Math.floor(Date.now() / 1000) });
+    const session = this.sessions.get(summary.session_id);
+    if (session) session.summary = summary.summary;
+  }
+
+  public async getLatestSummary(sessionId: string): Promise<ConversationSummary | null> {
+    const matches = this.summaries.filter(s => s.session_id === String(sessionId));
+    return matches.length ? { ...matches[matches.length - 1] } : null;
+  }
+
+  public async createSession(params: CreateSessionParams): Promise<SessionRecord> {
+    const now = Math.floor(Date.now() / 1000);
+    const session: SessionRecord = {
+      id: params.id,
+      user_id: params.user_id ?? null,
+      chat_id: params.chat_id ?? null,
+      agent_id: params.agent_id ?? null,
+      created_at: now,
+      last_active_at: now,
+      status: 'active',
+      title: params.title ?? null,
+      summary: null,
+    };
+    this.sessions.set(session.id, session);
+    return { ...session };
+  }
+
+  public async getSessionById(sessionId: string): Promise<SessionRecord | null> {
+    const session = this.sessions.get(String(sessionId));
+    return session ? { ...session } : null;
+  }
+
+  public async getLatestSessionByUser(user_id: string): Promise<SessionRecord | null> {
+    const [latest] = await this.listSessions({ user_id, limit: 1 });
+    return latest ?? null;
+  }
+
+  public async listSessions(filter: { user_id: string; status?: SessionStatus; limit?: number }): Promise<SessionRecord[]> {
+    // Insertion order breaks last_active_at ties, newest first
+    return [...this.sessions.values()]
+      .reverse()
+      .filter(s => s.user_id === String(filter.user_id) && (!filter.status || s.status === filter.status))
+      .sort((a, b) => b.last_active_at - a.last_active_at)
+      .slice(0, filter.limit ?? 50)
+      .map(s => ({ ...s }));
+  }
+
+  public async touchSession(sessionId: string, updates: { agent_id?: string } = {}): Promise<void> {
+    const session = this.sessions.get(String(sessionId));
+    if (!session) return;
+    session.last_active_at = Math.floor(Date.now() / 1000);
+    session.status = 'active';
+    if (updates.agent_id) session.agent_id = updates.agent_id;
+  }
+
+  public async updateSessionStatus(sessionId: string, status: SessionStatus): Promise<boolean> {
+    const session = this.sessions.get(String(sessionId));
+    if (!session) return false;
+    session.status = status;
+    return true;
+  }
+
+  public async deleteSession(sessionId: string): Promise<boolean> {
+    const id = String(sessionId);
+    const existed = this.sessions.delete(id);
+    const rowCount = this.rows.length;
+    this.rows = this.rows.filter(r => r.session_id !== id);
+    this.summaries = this.summaries.filter(s => s.session_id !== id);
+    return existed || this.rows.length !== rowCount;
+  }
+
+  public async getTokenUsage(filter: { user_id?: string; agent_id?: string; since: number }): Promise<number> {
+    return this.rows
+      .filter(r => r.timestamp >= filter.since
+        && (filter.user_id == null || r.user_id === String(filter.user_id))
+        && (filter.agent_id == null || r.agent_id === filter.agent_id))
+      .reduce((sum, r) => sum + r.total_tokens, 0);
+  }
+
+  public async getUsage(query: UsageQuery): Promise<UsageRow[]> {
+    const groupBy = new Set(query.group_by);
+    const periodDimension = groupBy.has('week') ? 'week' : groupBy.has('day') ? 'day' : null;
+    const groups = new Map<string, UsageRow>();
+
+    for (const r of this.rows) {
+      if (r.timestamp < query.since || r.timestamp >= query.until) continue;
+      if (query.agent_id != null && r.agent_id !== query.agent_id) continue;
+      if (query.user_id != null && r.user_id !== String(query.user_id)) continue;
+      if (query.session_id != null && r.session_id !== query.session_id) continue;
+
+      const key: Omit<UsageRow, 'llm_turns' | 'tool_calls' | 'prompt_tokens' | 'completion_tokens' | 'total_tokens'> = { model: r.model };
+      if (groupBy.has('agent')) key.agent_id = r.agent_id;
+      if (groupBy.has('user')) key.user_id = r.user_id;
+      if (groupBy.has('session')) key.session_id = r.session_id;
+      if (periodDimension) key.period = usagePeriod(r.timestamp, periodDimension);
+
+      const id = JSON.stringify(key);
+      const usage = groups.get(id) ?? { ...key, llm_turns: 0, tool_calls: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+      if (r.role === 'assistant' && r.finish_reason !== 'fallback') usage.llm_turns += 1;
+      if (r.role === 'tool') usage.tool_calls += 1;
+      usage.prompt_tokens += r.prompt_tokens;
+      usage.completion_tokens += r.completion_tokens;
+      usage.total_tokens += r.total_tokens;
+      groups.set(id, usage);
+    }
+    return [...groups.values()];
+  }
+
+  private latestRowForUser(user_id: string): ConversationRow | undefined {
+    let latest: ConversationRow | undefined;
+    for (const row of this.rows) {
+      if (row.user_id === user_id && (!latest || row.timestamp >= latest.timestamp)) latest = row;
+    }
+    return latest;
+  }
+}
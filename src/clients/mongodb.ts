@@ -17,10 +17,17 @@ export const client = new MongoClient(uri, {
   }
 });
 
+// Shared connect, so callers after the first don't each go through client.connect()
+let connected: Promise<MongoClient> | null = null;
+
 /**
  * Connect and return the database instance
  */
 export async function getDb() {
-  await client.connect();
+  connected ??= client.connect().catch(err => {
+    connected = null;
+    throw err;
+  });
+  await connected;
   return client.db(CONFIG.MONGODB_DB_NAME || 'royzheng_agents');
 }
\ No newline at end of file
@@ -0,0 +1,259 @@
+import type { AssistantMessage, Content, LLMStreamDelta, ToolCall } from '../llm.js';
+import { readServerSentEvents } from '../../utils/sse.js';
+import { functionDefinition, isBuiltinTool, parseArguments, parseDataUrl, providerError, schemaInstruction } from './types.js';
+import type { ChatCompletion, ChatRequest, LLMProvider, LLMTool } from './types.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 8192;
+
+const STOP_REASONS: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  pause_turn: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+  refusal: 'content_filter',
+};
+
+type AnthropicBlock = Record<string, any>;
+type AnthropicMessage = { role: 'user' | 'assistant'; content: AnthropicBlock[] };
+
+function toBlocks(content: Content[]): AnthropicBlock[] {
+  return content.flatMap((part): AnthropicBlock[] => {
+    if (part.type === 'text') return part.text ? [{ type: 'text', text: part.text }] : [];
+    if (part.type === 'image_url' && part.image_url) {
+      const inline = parseDataUrl(part.image_url.url);
+      return [{
+        type: 'image',
+        source: inline
+          ? { type: 'base64', media_type: inline.mimeType, data: inline.data }
+          : { type: 'url', url: part.image_url.url },
+      }];
+    }
+    // The Messages API has no audio input
+    if (part.type === 'input_audio') return [{ type: 'text', text: '[voice message: audio input is not supported by this model]' }];
+    return [];
+  });
+}
+
+/**
+ * Native Anthropic Messages API.
+ *
+ * - System messages become the top-level `system` prompt.
+ * - Tool calls become `tool_use` blocks and tool results `tool_result` blocks in a user turn.
+ * - Stored thinking blocks are not replayed, since they no longer carry signatures.
+ * - `googleSearch` maps to Anthropic's web search server tool; other Google tools are dropped.
+ * - A response format is requested through the system prompt.
+ */
+export class AnthropicProvider implements LLMProvider {
+  public readonly name = 'anthropic';
+
+  constructor(
+    private apiKey: string,
+    private baseUrl: string = 'https://api.anthropic.com/v1',
+    private maxTokens: number = DEFAULT_MAX_TOKENS,
+  ) {}
+
+  public async chat(request: ChatRequest): Promise<ChatCompletion> {
+    const response = await fetch(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(this.buildPayload(request)),
+    });
+    if (!response.ok) throw await providerError(this.name, response);
+
+    const data = await response.json();
+    if (!Array.isArray(data?.content)) throw new Error(`[anthropic] Invalid response: ${JSON.stringify(data)}`);
+
+    const message: AssistantMessage = { role: 'assistant', content: null };
+    let text = '';
+    const toolCalls: ToolCall[] = [];
+    for (const block of data.content) {
+      if (block.type === 'text') text += block.text;
+      else if (block.type === 'thinking') (message.thinking_blocks ??= []).push({ type: 'thinking', thinking: block.thinking });
+      else if (block.type === 'tool_use') {
+        toolCalls.push({
+          id: block.id,
+          index: toolCalls.length,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        });
+      }
+    }
+    message.content = text || null;
+    if (toolCalls.length) message.tool_calls = toolCalls;
+
+    return this.completion(data.id, data.model ?? request.model, message, data.stop_reason, data.usage);
+  }
+
+  public async stream(request: ChatRequest, onDelta: (delta: LLMStreamDelta) => void): Promise<ChatCompletion> {
+    const response = await fetch(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      headers: { ...this.headers(), 'Accept': 'text/event-stream' },
+      body: JSON.stringify({ ...this.buildPayload(request), stream: true }),
+    });
+    if (!response.ok || !response.body) throw await providerError(this.name, response);
+
+    let id: string | undefined;
+    let model = request.model;
+    let text = '';
+    let thinking = '';
+    let stopReason: string | null = null;
+    const usage = { input_tokens: 0, output_tokens: 0 };
+    // Content block index → tool call being assembled
+    const toolCalls = new Map<number, ToolCall>();
+
+    for await (const sse of readServerSentEvents(response.body)) {
+      let event: any;
+      try {
+        event = JSON.parse(sse.data);
+      } catch {
+        continue;
+      }
+
+      switch (event.type) {
+        case 'message_start':
+          id = event.message?.id;
+          model = event.message?.model ?? model;
+          usage.input_tokens = event.message?.usage?.input_tokens ?? 0;
+          break;
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            const call: ToolCall = {
+              id: event.content_block.id,
+              index: toolCalls.size,
+              type: 'function',
+              function: { name: event.content_block.name, arguments: '' },
+            };
+            toolCalls.set(event.index, call);
+            onDelta({ tool_calls: [{ index: call.index, id: call.id, name: call.function.name }] });
+          }
+          break;
+        case 'content_block_delta': {
+          const delta = event.delta ?? {};
+          if (delta.type === 'text_delta' && delta.text) {
+            text += delta.text;
+            onDelta({ content: delta.text });
+          } else if (delta.type === 'thinking_delta' && delta.thinking) {
+            thinking += delta.thinking;
+            onDelta({ thinking: delta.thinking });
+          } else if (delta.type === 'input_json_delta' && delta.partial_json) {
+            const call = toolCalls.get(event.index);
+            if (call) {
+              call.function.arguments += delta.partial_json;
+              onDelta({ tool_calls: [{ index: call.index, arguments: delta.partial_json }] });
+            }
+          }
+          break;
+        }
+        case 'message_delta':
+          stopReason = event.delta?.stop_reason ?? stopReason;
+          usage.output_tokens = event.usage?.output_tokens ?? usage.output_tokens;
+          break;
+        case 'error':
+          throw new Error(`[anthropic] Stream error: ${JSON.stringify(event.error)}`);
+      }
+    }
+
+    const calls = [...toolCalls.values()].map(c => ({
+      ...c,
+      function: { ...c.function, arguments: c.function.arguments || '{}' },
+    }));
+    const message: AssistantMessage = {
+      role: 'assistant',
+      content: text || null,
+      ...(calls.length ? { tool_calls: calls } : {}),
+      ...(thinking ? { thinking_blocks: [{ type: 'thinking' as const, thinking }] } : {}),
+    };
+    return this.completion(id, model, message, stopReason, usage);
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-api-key': this.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+    };
+  }
+
+  private completion(
+    id: string | undefined,
+    model: string,
+    message: AssistantMessage,
+    stopReason: string | null,
+    usage: { input_tokens?: number; output_tokens?: number } = {},
+  ): ChatCompletion {
+    const prompt = usage.input_tokens ?? 0;
+    const completion = usage.output_tokens ?? 0;
+    return {
+      id,
+      object: 'chat.completion',
+      model,
+      choices: [{ index: 0, message, finish_reason: stopReason ? (STOP_REASONS[stopReason] ?? stopReason) : null }],
+      usage: { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion },
+    };
+  }
+
+  private buildPayload({ model, conversation, tools, responseFormat }: ChatRequest): Record<string, any> {
+    const system: string[] = [];
+    const messages: AnthropicMessage[] = [];
+
+    // Consecutive turns of the same role are merged, which also groups parallel tool results
+    const append = (role: AnthropicMessage['role'], blocks: AnthropicBlock[]) => {
+      if (blocks.length === 0) return;
+      const last = messages[messages.length - 1];
+      if (last?.role === role) last.content.push(...blocks);
+      else messages.push({ role, content: blocks });
+    };
+
+    for (const message of conversation) {
+      switch (message.role) {
+        case 'system':
+          system.push(message.content.map(p => p.text ?? '').filter(Boolean).join('\n'));
+          break;
+        case 'user':
+          append('user', toBlocks(message.content));
+          break;
+        case 'assistant':
+          append('assistant', [
+            ...(message.content ? [{ type: 'text', text: message.content }] : []),
+            ...(message.tool_calls ?? []).map(call => ({
+              type: 'tool_use',
+              id: call.id,
+              name: call.function.name,
+              input: parseArguments(call.function.arguments),
+            })),
+          ]);
+          break;
+        case 'tool':
+          append('user', [{ type: 'tool_result', tool_use_id: message.tool_call_id, content: message.content }]);
+          break;
+      }
+    }
+
+    if (responseFormat) system.push(schemaInstruction(responseFormat));
+
+    const payload: Record<string, any> = { model, max_tokens: this.maxTokens, messages };
+    if (system.length) payload.system = system.filter(Boolean).join('\n\n');
+
+    const translated = this.translateTools(tools ?? []);
+    if (translated.length) payload.tools = translated;
+    return payload;
+  }
+
+  private translateTools(tools: LLMTool[]): LLMTool[] {
+    return tools.flatMap((tool): LLMTool[] => {
+      if (isBuiltinTool(tool)) {
+        if ('googleSearch' in tool) return [{ type: 'web_search_20250305', name: 'web_search' }];
+        console.warn(`⚠️ [anthropic] Dropping Google built-in tool ${Object.keys(tool)[0]}`);
+        return [];
+      }
+      const fn = functionDefinition(tool);
+      return [{
+        name: fn.name,
+        description: fn.description,
+        input_schema: fn.parameters ?? { type: 'object', properties: {} },
+      }];
+    });
+  }
+}
@@ -0,0 +1,268 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { AssistantMessage, Content, Conversation, LLMStreamDelta, ToolCall } from '../llm.js';
+import { readServerSentEvents } from '../../utils/sse.js';
+import { functionDefinition, isBuiltinTool, mimeType, parseArguments, parseDataUrl, providerError, schemaInstruction } from './types.js';
+import type { ChatCompletion, ChatRequest, LLMProvider, LLMTool } from './types.js';
+
+const FINISH_REASONS: Record<string, string> = {
+  STOP: 'stop',
+  MAX_TOKENS: 'length',
+  SAFETY: 'content_filter',
+  RECITATION: 'content_filter',
+  BLOCKLIST: 'content_filter',
+  PROHIBITED_CONTENT: 'content_filter',
+  SPII: 'content_filter',
+  IMAGE_SAFETY: 'content_filter',
+};
+
+type GeminiPart = Record<string, any>;
+type GeminiContent = { role: 'user' | 'model'; parts: GeminiPart[] };
+
+/**
+ * Native Gemini `generateContent` API.
+ *
+ * - System messages become `systemInstruction`.
+ * - Images and audio are sent inline; image URLs are downloaded first.
+ * - Tool calls become `functionCall` parts and tool results `functionResponse` parts.
+ *   Gemini does not return call ids, so ids are generated and mapped back by name.
+ * - Google built-in tools are passed through as tools.
+ * - A response format becomes `responseJsonSchema`, or a prompt instruction when tools are present.
+ */
+export class GeminiProvider implements LLMProvider {
+  public readonly name = 'gemini';
+
+  constructor(
+    private apiKey: string,
+    private baseUrl: string = 'https://generativelanguage.googleapis.com/v1beta',
+  ) {}
+
+  public async chat(request: ChatRequest): Promise<ChatCompletion> {
+    const response = await fetch(`${this.baseUrl}/models/${request.model}:generateContent`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(await this.buildPayload(request)),
+    });
+    if (!response.ok) throw await providerError(this.name, response);
+
+    const data = await response.json();
+    if (!Array.isArray(data?.candidates) || !data.candidates.length) {
+      const blocked = data?.promptFeedback?.blockReason;
+      if (blocked) return this.completion(request.model, { role: 'assistant', content: null }, 'SAFETY', data.usageMetadata);
+      throw new Error(`[gemini] Invalid response: ${JSON.stringify(data)}`);
+    }
+
+    const candidate = data.candidates[0];
+    const message: AssistantMessage = { role: 'assistant', content: null };
+    let text = '';
+    let thinking = '';
+    const toolCalls: ToolCall[] = [];
+    for (const part of candidate.content?.parts ?? []) {
+      if (part.functionCall) toolCalls.push(this.toToolCall(part.functionCall, toolCalls.length));
+      else if (typeof part.text === 'string') {
+        if (part.thought) thinking += part.text;
+        else text += part.text;
+      }
+    }
+    message.content = text || null;
+    if (toolCalls.length) message.tool_calls = toolCalls;
+    if (thinking) message.thinking_blocks = [{ type: 'thinking', thinking }];
+
+    return this.completion(data.modelVersion ?? request.model, message, candidate.finishReason, data.usageMetadata, data.responseId);
+  }
+
+  public async stream(request: ChatRequest, onDelta: (delta: LLMStreamDelta) => void): Promise<ChatCompletion> {
+    const response = await fetch(`${this.baseUrl}/models/${request.model}:streamGenerateContent?alt=sse`, {
+      method: 'POST',
+      headers: { ...this.headers(), 'Accept': 'text/event-stream' },
+      body: JSON.stringify(await this.buildPayload(request)),
+    });
+    if (!response.ok || !response.body) throw await providerError(this.name, response);
+
+    let text = '';
+    let thinking = '';
+    let finishReason: string | null = null;
+    let usageMetadata: any;
+    let model = request.model;
+    let id: string | undefined;
+    const toolCalls: ToolCall[] = [];
+
+    for await (const sse of readServerSentEvents(response.body)) {
+      let chunk: any;
+      try {
+        chunk = JSON.parse(sse.data);
+      } catch {
+        continue;
+      }
+
+      usageMetadata = chunk.usageMetadata ?? usageMetadata;
+      model = chunk.modelVersion ?? model;
+      id ??= chunk.responseId;
+      if (chunk.promptFeedback?.blockReason) finishReason = 'SAFETY';
+
+      const candidate = chunk.candidates?.[0];
+      if (!candidate) continue;
+      if (candidate.finishReason) finishReason = candidate.finishReason;
+
+      for (const part of candidate.content?.parts ?? []) {
+        if (part.functionCall) {
+          // Function calls arrive whole rather than in fragments
+          const call = this.toToolCall(part.functionCall, toolCalls.length);
+          toolCalls.push(call);
+          onDelta({ tool_calls: [{ index: call.index, id: call.id, name: call.function.name, arguments: call.function.arguments }] });
+        } else if (typeof part.text === 'string' && part.text) {
+          if (part.thought) {
+            thinking += part.text;
+            onDelta({ thinking: part.text });
+          } else {
+            text += part.text;
+            onDelta({ content: part.text });
+          }
+        }
+      }
+    }
+
+    const message: AssistantMessage = {
+      role: 'assistant',
+      content: text || null,
+      ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+      ...(thinking ? { thinking_blocks: [{ type: 'thinking' as const, thinking }] } : {}),
+    };
+    return this.completion(model, message, finishReason, usageMetadata, id);
+  }
+
+  private headers(): Record<string, string> {
+    return { 'Content-Type': 'application/json', 'x-goog-api-key': this.apiKey };
+  }
+
+  private toToolCall(functionCall: { id?: string; name: string; args?: Record<string, any> }, index: number): ToolCall {
+    return {
+      id: functionCall.id ?? `call_${uuidv4().replace(/-/g, '').slice(0, 24)}`,
+      index,
+      type: 'function',
+      function: { name: functionCall.name, arguments: JSON.stringify(functionCall.args ?? {}) },
+    };
+  }
+
+  private completion(
+    model: string,
+    message: AssistantMessage,
+    finishReason: string | null | undefined,
+    usage: any = {},
+    id?: string,
+  ): ChatCompletion {
+    let reason = finishReason ? (FINISH_REASONS[finishReason] ?? finishReason.toLowerCase()) : null;
+    if (reason === 'stop' && message.tool_calls?.length) reason = 'tool_calls';
+
+    const prompt = usage?.promptTokenCount ?? 0;
+    const completion = (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0);
+    return {
+      id,
+      object: 'chat.completion',
+      model,
+      choices: [{ index: 0, message, finish_reason: reason }],
+      usage: { prompt_tokens: prompt, completion_tokens: completion, total_tokens: usage?.totalTokenCount ?? prompt + completion },
+    };
+  }
+
+  private async toParts(content: Content[]): Promise<GeminiPart[]> {
+    const parts: GeminiPart[] = [];
+    for (const part of content) {
+      if (part.type === 'text' && part.text) {
+        parts.push({ text: part.text });
+      } else if (part.type === 'input_audio' && part.input_audio?.data) {
+        parts.push({ inlineData: { mimeType: mimeType('audio', part.input_audio.format), data: part.input_audio.data } });
+      } else if (part.type === 'image_url' && part.image_url?.url) {
+        parts.push(await this.imagePart(part.image_url.url, part.image_url.format));
+      }
+    }
+    return parts;
+  }
+
+  private async imagePart(url: string, format: string): Promise<GeminiPart> {
+    const inline = parseDataUrl(url);
+    if (inline) return { inlineData: inline };
+
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+      const data = Buffer.from(await response.arrayBuffer()).toString('base64');
+      const type = response.headers.get('content-type')?.split(';')[0] || mimeType('image', format);
+      return { inlineData: { mimeType: type, data } };
+    } catch (err) {
+      console.warn(`⚠️ [gemini] Could not download image ${url}:`, err);
+      return { text: '[image could not be loaded]' };
+    }
+  }
+
+  private async buildPayload({ conversation, tools, responseFormat }: ChatRequest): Promise<Record<string, any>> {
+    const system: string[] = [];
+    const contents: GeminiContent[] = [];
+    const toolNames = toolNamesById(conversation);
+
+    const append = (role: GeminiContent['role'], parts: GeminiPart[]) => {
+      if (parts.length === 0) return;
+      const last = contents[contents.length - 1];
+      if (last?.role === role) last.parts.push(...parts);
+      else contents.push({ role, parts });
+    };
+
+    for (const message of conversation) {
+      switch (message.role) {
+        case 'system':
+          system.push(message.content.map(p => p.text ?? '').filter(Boolean).join('\n'));
+          break;
+        case 'user':
+          append('user', await this.toParts(message.content));
+          break;
+        case 'assistant':
+          append('model', [
+            ...(message.content ? [{ text: message.content }] : []),
+            ...(message.tool_calls ?? []).map(call => ({
+              functionCall: { name: call.function.name, args: parseArguments(call.function.arguments) },
+            })),
+          ]);
+          break;
+        case 'tool':
+          append('user', [{
+            functionResponse: {
+              name: toolNames.get(message.tool_call_id) ?? 'unknown_tool',
+              response: { content: message.content },
+            },
+          }]);
+          break;
+      }
+    }
+
+    const translated = translateTools(tools ?? []);
+
+    // Gemini rejects a JSON response schema alongside tools, so ask for it in the prompt instead
+    let generationConfig: Record<string, any> | undefined;
+    if (responseFormat && translated.length) system.push(schemaInstruction(responseFormat));
+    else if (responseFormat) generationConfig = { responseMimeType: 'application/json', responseJsonSchema: responseFormat.schema };
+
+    const payload: Record<string, any> = { contents };
+    if (system.length) payload.systemInstruction = { parts: [{ text: system.filter(Boolean).join('\n\n') }] };
+    if (translated.length) payload.tools = translated;
+    if (generationConfig) payload.generationConfig = generationConfig;
+    return payload;
+  }
+}
+
+function toolNamesById(conversation: Conversation): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const message of conversation) {
+    if (message.role !== 'assistant') continue;
+    for (const call of message.tool_calls ?? []) names.set(call.id, call.function.name);
+  }
+  return names;
+}
+
+function translateTools(tools: LLMTool[]): LLMTool[] {
+  const builtins = tools.filter(isBuiltinTool);
+  const declarations = tools.filter(t => !isBuiltinTool(t)).map(tool => {
+    const fn = functionDefinition(tool);
+    // parametersJsonSchema accepts full JSON Schema, unlike the OpenAPI subset in `parameters`
+    return { name: fn.name, description: fn.description, parametersJsonSchema: fn.parameters ?? { type: 'object', properties: {} } };
+  });
+  return [...(declarations.length ? [{ functionDeclarations: declarations }] : []), ...builtins];
+}
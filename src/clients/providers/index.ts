@@ -0,0 +1,55 @@
+import { CONFIG } from '../../utils/config.js';
+import type { LLMProvider } from './types.js';
+import { OpenAICompatibleProvider } from './openaiCompatible.js';
+import { AnthropicProvider } from './anthropic.js';
+import { GeminiProvider } from './gemini.js';
+import { MockProvider } from './mock.js';
+
+export * from './types.js';
+export { OpenAICompatibleProvider, AnthropicProvider, GeminiProvider, MockProvider };
+
+/** Provider that receives models without a recognised `provider/` prefix. */
+export const DEFAULT_PROVIDER = 'litellm';
+
+/**
+ * Providers available in this deployment. The mock is always registered; the
+ * LiteLLM proxy, OpenAI, Anthropic and Gemini only when their API key is set,
+ * so LiteLLM-style names such as `gemini/gemini-2.5-flash` keep going through
+ * the proxy otherwise.
+ */
+export function createProviders(
+  litellmBaseUrl: string = CONFIG.LLM_BASE_URL,
+  litellmApiKey: string | undefined = CONFIG.LLM_API_KEY
+): Map<string, LLMProvider> {
+  const providers = new Map<string, LLMProvider>();
+  if (litellmApiKey) {
+    providers.set(DEFAULT_PROVIDER, new OpenAICompatibleProvider(DEFAULT_PROVIDER, litellmBaseUrl, litellmApiKey, true));
+  }
+  providers.set('mock', new MockProvider());
+
+  if (CONFIG.OPENAI_API_KEY) {
+    providers.set('openai', new OpenAICompatibleProvider('openai', CONFIG.OPENAI_BASE_URL, CONFIG.OPENAI_API_KEY));
+  }
+  if (CONFIG.ANTHROPIC_API_KEY) providers.set('anthropic', new AnthropicProvider(CONFIG.ANTHROPIC_API_KEY));
+  if (CONFIG.GEMINI_API_KEY) providers.set('gemini', new GeminiProvider(CONFIG.GEMINI_API_KEY));
+  return providers;
+}
+
+/**
+ * Split `provider/model` into the provider and the model name it expects.
+ * `litellm/<model>` strips the prefix; unknown prefixes go to the default
+ * provider with the full name, which needs LLM_API_KEY.
+ */
+export function resolveModel(
+  model: string,
+  providers: Map<string, LLMProvider>
+): { provider: LLMProvider; model: string } {
+  const slash = model.indexOf('/');
+  if (slash > 0) {
+    const provider = providers.get(model.slice(0, slash));
+    if (provider) return { provider, model: model.slice(slash + 1) };
+  }
+  const fallback = providers.get(DEFAULT_PROVIDER);
+  if (!fallback) throw new Error(`No provider for ${model}: LLM_API_KEY environment variable is not set`);
+  return { provider: fallback, model };
+}
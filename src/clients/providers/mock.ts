@@ -0,0 +1,86 @@
+import type { AssistantMessage, LLMStreamDelta, Message } from '../llm.js';
+import type { ChatCompletion, ChatRequest, LLMProvider } from './types.js';
+
+/** Scripted reply: a completion, or a function building one from the request. */
+export type MockReply = ChatCompletion | ((request: ChatRequest) => ChatCompletion);
+
+const TOOL_COMMAND = /^\/mock-tool\s+(\S+)\s*(.*)$/s;
+
+function lastText(message: Message | undefined): string {
+  if (!message) return '';
+  if (message.role === 'user' || message.role === 'system') {
+    return message.content.map(p => p.text ?? '').filter(Boolean).join('\n');
+  }
+  return message.content ?? '';
+}
+
+/**
+ * Offline provider (`mock/<anything>`) for running the orchestrator without network.
+ *
+ * Replies come from `enqueue`d completions first. Otherwise:
+ * - a user message `/mock-tool <name> <json args>` produces a call to that tool;
+ * - a tool result is echoed back as the reply;
+ * - anything else gets `Mock reply: <user text>`.
+ */
+export class MockProvider implements LLMProvider {
+  public readonly name = 'mock';
+  private script: MockReply[] = [];
+  public readonly requests: ChatRequest[] = [];
+
+  public enqueue(...replies: MockReply[]): void {
+    this.script.push(...replies);
+  }
+
+  public async chat(request: ChatRequest): Promise<ChatCompletion> {
+    this.requests.push(request);
+    const scripted = this.script.shift();
+    if (scripted) return typeof scripted === 'function' ? scripted(request) : scripted;
+    return this.defaultReply(request);
+  }
+
+  public async stream(request: ChatRequest, onDelta: (delta: LLMStreamDelta) => void): Promise<ChatCompletion> {
+    const completion = await this.chat(request);
+    const message = completion.choices[0].message;
+    for (const word of (message.content ?? '').match(/\S+\s*/g) ?? []) onDelta({ content: word });
+    message.tool_calls?.forEach(call => onDelta({
+      tool_calls: [{ index: call.index, id: call.id, name: call.function.name, arguments: call.function.arguments }],
+    }));
+    return completion;
+  }
+
+  private defaultReply({ model, conversation }: ChatRequest): ChatCompletion {
+    // The time system message is appended last, so look past trailing system messages
+    const last = [...conversation].reverse().find(m => m.role !== 'system');
+    let message: AssistantMessage;
+    let finishReason = 'stop';
+
+    const command = last?.role === 'user' ? TOOL_COMMAND.exec(lastText(last)) : null;
+    if (command) {
+      message = {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{
+          id: `mock_call_${this.requests.length}`,
+          index: 0,
+          type: 'function',
+          function: { name: command[1], arguments: command[2].trim() || '{}' },
+        }],
+      };
+      finishReason = 'tool_calls';
+    } else if (last?.role === 'tool') {
+      message = { role: 'assistant', content: `Tool result: ${last.content}` };
+    } else {
+      message = { role: 'assistant', content: `Mock reply: ${lastText(last)}` };
+    }
+
+    const promptTokens = Math.ceil(JSON.stringify(conversation).length / 4);
+    const completionTokens = Math.ceil(JSON.stringify(message).length / 4);
+    return {
+      id: `mock-${this.requests.length}`,
+      object: 'chat.completion',
+      model,
+      choices: [{ index: 0, message, finish_reason: finishReason }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+    };
+  }
+}
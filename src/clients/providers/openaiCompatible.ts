@@ -0,0 +1,190 @@
+import type { AssistantMessage, LLMStreamDelta, ThinkingBlock, ToolCall } from '../llm.js';
+import { readServerSentEvents } from '../../utils/sse.js';
+import { functionDefinition, isBuiltinTool, providerError } from './types.js';
+import type { ChatCompletion, ChatRequest, LLMProvider, LLMTool } from './types.js';
+
+/**
+ * Any `/chat/completions` endpoint: the LiteLLM proxy, OpenAI, or a local server.
+ * Our message types already are the OpenAI format, so only tools are translated.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  constructor(
+    public readonly name: string,
+    private baseUrl: string,
+    private apiKey: string,
+    /** Forward Google built-in tools as-is; LiteLLM translates them for Gemini models. */
+    private passBuiltinTools: boolean = false,
+  ) {}
+
+  public async chat(request: ChatRequest): Promise<ChatCompletion> {
+    console.log(`[${this.name}] Sending request to ${this.baseUrl}/chat/completions`);
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': 'Bearer ' + this.apiKey,
+      },
+      body: JSON.stringify(this.buildPayload(request)),
+    });
+
+    if (!response.ok) throw await providerError(this.name, response);
+
+    const data = await response.json();
+    if (!data?.choices?.length || !data.choices[0]?.message) {
+      throw new Error(`[${this.name}] Invalid LLM response: ${JSON.stringify(data)}`);
+    }
+    return data;
+  }
+
+  public async stream(request: ChatRequest, onDelta: (delta: LLMStreamDelta) => void): Promise<ChatCompletion> {
+    console.log(`[${this.name}] Streaming request to ${this.baseUrl}/chat/completions`);
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+        'Authorization': 'Bearer ' + this.apiKey,
+      },
+      body: JSON.stringify({
+        ...this.buildPayload(request),
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+    });
+
+    if (!response.ok || !response.body) throw await providerError(this.name, response);
+
+    const assembler = new StreamAssembler();
+    for await (const sse of readServerSentEvents(response.body)) {
+      if (sse.data === '[DONE]') break;
+
+      let chunk: any;
+      try {
+        chunk = JSON.parse(sse.data);
+      } catch {
+        console.warn(`⚠️ [${this.name}] Skipping unparseable stream chunk: ${sse.data}`);
+        continue;
+      }
+
+      const delta = assembler.push(chunk);
+      if (delta) onDelta(delta);
+    }
+
+    return assembler.toResponse(request.model);
+  }
+
+  private buildPayload({ model, conversation, tools, responseFormat }: ChatRequest): Record<string, any> {
+    const payload: Record<string, any> = { model, messages: conversation };
+    const translated = this.translateTools(tools ?? []);
+    if (translated.length) {
+      payload.tools = translated;
+      console.log(`[${this.name}] Including ${translated.length} tools`);
+    }
+    if (responseFormat) {
+      payload.response_format = {
+        type: 'json_schema',
+        json_schema: {
+          name: responseFormat.name ?? 'response',
+          schema: responseFormat.schema,
+          strict: responseFormat.strict ?? false,
+        },
+      };
+    }
+    return payload;
+  }
+
+  private translateTools(tools: LLMTool[]): LLMTool[] {
+    return tools.flatMap(tool => {
+      if (isBuiltinTool(tool)) {
+        if (this.passBuiltinTools) return [tool];
+        console.warn(`⚠️ [${this.name}] Dropping Google built-in tool ${Object.keys(tool)[0]}`);
+        return [];
+      }
+      const fn = functionDefinition(tool);
+      return [{ type: 'function', function: { name: fn.name, description: fn.description, parameters: fn.parameters } }];
+    });
+  }
+}
+
+/**
+ * Assembles `chat.completion.chunk` objects into a single chat completion.
+ * Tool call fragments are merged by `index`; their `arguments` arrive as partial JSON strings.
+ */
+class StreamAssembler {
+  private content = '';
+  private thinking = '';
+  private toolCalls = new Map<number, ToolCall>();
+  private finishReason: string | null = null;
+  private usage: ChatCompletion['usage'] | null = null;
+  private id?: string;
+  private reportedModel?: string;
+
+  /** Merge one chunk and return the delta to forward, if it carried anything visible. */
+  push(chunk: any): LLMStreamDelta | null {
+    this.id ??= chunk?.id;
+    this.reportedModel ??= chunk?.model;
+    if (chunk?.usage) this.usage = chunk.usage;
+
+    const choice = chunk?.choices?.[0];
+    if (!choice) return null;
+    if (choice.finish_reason) this.finishReason = choice.finish_reason;
+
+    const delta = choice.delta ?? {};
+    const out: LLMStreamDelta = {};
+
+    if (typeof delta.content === 'string' && delta.content) {
+      this.content += delta.content;
+      out.content = delta.content;
+    }
+
+    const reasoning = delta.reasoning_content
+      ?? delta.thinking_blocks?.map((b: ThinkingBlock) => b.thinking ?? '').join('');
+    if (typeof reasoning === 'string' && reasoning) {
+      this.thinking += reasoning;
+      out.thinking = reasoning;
+    }
+
+    if (Array.isArray(delta.tool_calls)) {
+      out.tool_calls = [];
+      for (const fragment of delta.tool_calls) {
+        const index = fragment.index ?? 0;
+        let call = this.toolCalls.get(index);
+        if (!call) {
+          call = { id: '', index, type: 'function', function: { name: '', arguments: '' } };
+          this.toolCalls.set(index, call);
+        }
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.function.name += fragment.function.name;
+        if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+
+        out.tool_calls.push({
+          index,
+          id: fragment.id,
+          name: fragment.function?.name,
+          arguments: fragment.function?.arguments,
+        });
+      }
+    }
+
+    return out.content || out.thinking || out.tool_calls?.length ? out : null;
+  }
+
+  /** Build a non-streaming style response from everything received so far. */
+  toResponse(model: string): ChatCompletion {
+    const toolCalls = [...this.toolCalls.values()].sort((a, b) => a.index - b.index);
+    const message: AssistantMessage = {
+      role: 'assistant',
+      content: this.content || null,
+      ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+      ...(this.thinking ? { thinking_blocks: [{ type: 'thinking' as const, thinking: this.thinking }] } : {}),
+    };
+
+    return {
+      id: this.id,
+      object: 'chat.completion',
+      model: this.reportedModel ?? model,
+      choices: [{ index: 0, message, finish_reason: this.finishReason }],
+      usage: this.usage ?? { completion_tokens: 0, prompt_tokens: 0, total_tokens: 0 },
+    };
+  }
+}
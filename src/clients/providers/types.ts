@@ -0,0 +1,147 @@
+import type { AssistantMessage, Conversation, LLMStreamDelta } from '../llm.js';
+
+/**
+ * Tools as passed to `LLMClient`: function definitions from the ToolRegistry,
+ * plus Google built-in tools written as `{ googleSearch: {} }`, `{ googleMaps: {} }`
+ * or `{ urlContext: {} }`.
+ */
+export type LLMTool = Record<string, any>;
+
+/**
+ * JSON Schema the final answer must follow, as in OpenAI's
+ * `response_format: { type: 'json_schema', json_schema }`.
+ */
+export interface JsonSchemaFormat {
+  /** Name of the schema; OpenAI requires one, so `response` is used if unset. */
+  name?: string;
+  schema: Record<string, any>;
+  /** OpenAI strict mode, which only supports a subset of JSON Schema. Defaults to false. */
+  strict?: boolean;
+}
+
+export interface ChatRequest {
+  /** Model name as the provider knows it, without the `provider/` prefix. */
+  model: string;
+  conversation: Conversation;
+  tools?: LLMTool[];
+  responseFormat?: JsonSchemaFormat;
+}
+
+/**
+ * Provider-neutral completion, in the OpenAI chat completion shape the
+ * orchestrator already consumes. `finish_reason` uses OpenAI's vocabulary
+ * (`stop`, `length`, `tool_calls`, `content_filter`).
+ */
+export interface ChatCompletion {
+  id?: string;
+  object: 'chat.completion';
+  model: string;
+  choices: Array<{ index: number; message: AssistantMessage; finish_reason: string | null }>;
+  usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+  /** Configured model that produced the completion, possibly a fallback. Set by LLMClient. */
+  model_used?: string;
+}
+
+/**
+ * One LLM backend. Implementations translate our Conversation, Content and
+ * ToolCall types to the provider's wire format and back, and make a single
+ * attempt per call; retries are LLMClient's job.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  chat(request: ChatRequest): Promise<ChatCompletion>;
+  /** Like `chat`, passing each fragment to `onDelta` as it arrives. */
+  stream(request: ChatRequest, onDelta: (delta: LLMStreamDelta) => void): Promise<ChatCompletion>;
+}
+
+/** Names of the Google built-in tools, as keys of their tool entries. */
+export const GOOGLE_BUILTIN_TOOLS = ['googleSearch', 'googleMaps', 'urlContext'] as const;
+
+export function isBuiltinTool(tool: LLMTool): boolean {
+  return GOOGLE_BUILTIN_TOOLS.some(name => name in tool);
+}
+
+/** A function tool in the bare `{ name, description, parameters }` shape. */
+export interface FunctionDefinition {
+  name: string;
+  description?: string;
+  parameters?: Record<string, any>;
+}
+
+function isFunctionDefinition(value: unknown): value is FunctionDefinition {
+  return typeof value === 'object' && value !== null && typeof (value as { name?: unknown }).name === 'string';
+}
+
+/** Function definitions from either `{ name, description, parameters }` or the OpenAI `{ type, function }` shape. */
+export function functionDefinition(tool: LLMTool): FunctionDefinition {
+  const fn = tool.type === 'function' && tool.function ? tool.function : tool;
+  if (!isFunctionDefinition(fn)) throw new Error(`Tool is not a function definition: ${JSON.stringify(tool).slice(0, 200)}`);
+  return fn;
+}
+
+/** Parse tool call arguments, falling back to an empty object for invalid JSON. */
+export function parseArguments(args: string | undefined): Record<string, any> {
+  if (!args) return {};
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** `image/jpeg` style MIME type from a bare format such as `jpeg`, `jpg` or `ogg`. */
+export function mimeType(kind: 'image' | 'audio', format: string | undefined): string {
+  if (!format) return kind === 'image' ? 'image/jpeg' : 'audio/ogg';
+  if (format.includes('/')) return format;
+  const normalized = format.toLowerCase() === 'jpg' ? 'jpeg' : format.toLowerCase();
+  return `${kind}/${normalized}`;
+}
+
+/** Split a `data:` URL into MIME type and base64 data. */
+export function parseDataUrl(url: string): { mimeType: string; data: string } | null {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+}
+
+/**
+ * Prompt text asking for JSON matching `format`, for providers that cannot
+ * enforce a schema natively. Validation still happens in the orchestrator.
+ */
+export function schemaInstruction(format: JsonSchemaFormat): string {
+  return `When you give your final answer, reply with only a JSON value (no code fences or commentary) that matches this JSON Schema:\n${JSON.stringify(format.schema)}`;
+}
+
+/**
+ * HTTP failure from a provider. `status` and `retryAfterMs` let LLMClient
+ * decide whether and when to retry.
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+/** `Retry-After` in milliseconds, given as seconds or an HTTP date. */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Build an LLMProviderError from a failed response, including its body. */
+export async function providerError(provider: string, response: Response): Promise<LLMProviderError> {
+  const body = await response.text().catch(() => '');
+  return new LLMProviderError(
+    `[${provider}] Request failed: ${response.status} ${response.statusText}${body ? ` - Body: ${body.slice(0, 1000)}` : ''}`,
+    response.status,
+    parseRetryAfter(response.headers.get('retry-after')),
+  );
+}
@@ -1,11 +1,18 @@
 import type { Event } from '../models/Event.js';
 import type { Response, ResponseRecipient, ResponseMessage } from '../models/Response.js';
-import { CONFIG } from '../utils/config.js';
+import { deliveryService } from '../delivery/service.js';
+import type { DeliveryResult } from '../delivery/service.js';
 
 /**
- * Send one or multiple messages to the integration endpoint.
+ * Send one or multiple messages to the integration endpoint of each recipient channel.
  * - Each message can be text, audio, or both.
  * - includePlaceholder: include placeholder_message_id in the first message (if it exists)
+ * - durable: store and retry the delivery until it succeeds. Defaults to true for
+ *   new messages and false for placeholder edits, which are superseded anyway.
+ * - part: index of this send among the event's durable ones, when it has several;
+ *   a retried event reuses the delivery of the same part instead of sending again.
+ *
+ * Returns one DeliveryResult per channel.
  */
 export async function sendResponse(
   event: Event,
@@ -13,8 +20,10 @@ export async function sendResponse(
   options?: {
     includePlaceholder?: boolean;
     editMessage?: boolean;
+    durable?: boolean;
+    part?: number;
   }
-) {
+): Promise<DeliveryResult[]> {
   // Normalize to array
   const msgs: ResponseMessage[] = Array.isArray(messages) ? messages : [messages];
 
@@ -26,40 +35,32 @@ export async function sendResponse(
     msgs[0].placeholder_message_id = event.metadata!.placeholder_message_id;
   }
 
-  const payload: Response = {
-    id: event.id,
-    recipients: (event.recipients || []).map((r: any): ResponseRecipient => ({
-      channel: r.channel,
-      id: r.id ?? undefined,
-      user_id: r.user_id ?? undefined,
-      chat_id: r.chat_id ?? undefined,
-    })),
-    messages: msgs,
-    metadata: {
-      source: event.sender?.source,
-      agent_id: event.agent_id,
-      ...(hasPlaceholder && options?.editMessage ? { edit_message: true } : {}),
-    },
-  };
+  const recipients = (event.recipients || []).map((r: any): ResponseRecipient => ({
+    channel: r.channel,
+    id: r.id ?? undefined,
+    user_id: r.user_id ?? undefined,
+    chat_id: r.chat_id ?? undefined,
+  }));
 
-  console.log('Sending payload:', JSON.stringify(payload, null, 2));
+  // One delivery per channel, so each can go to its own endpoint and fail independently
+  const channels = [...new Set(recipients.map(r => r.channel))];
+  const durable = options?.durable ?? !options?.editMessage;
 
-  try {
-    const res = await fetch('https://royzheng-integrations.hf.space/api/send-response', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': 'Bearer ' + CONFIG.INT_API_KEY!,
+  return Promise.all(channels.map(channel => {
+    const payload: Response = {
+      id: event.id,
+      recipients: recipients.filter(r => r.channel === channel),
+      messages: msgs,
+      metadata: {
+        source: event.sender?.source,
+        agent_id: event.agent_id,
+        ...(hasPlaceholder && options?.editMessage ? { edit_message: true } : {}),
       },
-      body: JSON.stringify(payload),
-    });
+    };
 
-    if (!res.ok) {
-      console.error(`❌ Failed to send response: ${res.status} ${res.statusText}`);
-    }
-  } catch (err) {
-    console.error('❌ Network error while sending response:', err);
-  }
+    console.log('Sending payload:', JSON.stringify(payload, null, 2));
+    return deliveryService.deliver({ eventId: event.id, channel, payload, durable, part: options?.part });
+  }));
 }
 
 // /**
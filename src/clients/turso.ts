@@ -1,41 +1,202 @@
-import { createClient } from '@libsql/client';
+import { createClient, Client, Row } from '@libsql/client';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
 import { v4 as uuidv4 } from 'uuid';
-import { CONFIG } from '../utils/config.js';
 import { trace, SpanStatusCode, Tracer } from '@opentelemetry/api'; 
+import { runMigrations, Migration } from '../utils/migrations.js';
+import type {
+  ConversationRow,
+  ConversationStore,
+  ConversationSummary,
+  CreateSessionParams,
+  LogConversationParams,
+  Role,
+  SessionRecord,
+  SessionStatus,
+  UsageDimension,
+  UsageQuery,
+  UsageRow,
+} from './conversationStore.js';
 
 const DB_SYSTEM = 'sqlite';
 
+/** Columns of a usage row that come from its grouping dimensions, besides `model`. */
+type UsageGroupFields = Pick<UsageRow, 'agent_id' | 'user_id' | 'session_id' | 'period'>;
+
+/** SQL for each usage dimension; `weekday 0` moves to the next Sunday, so `-6 days` lands on the week's Monday. */
+const USAGE_GROUP_COLUMNS: Record<UsageDimension, { column: string; alias: keyof UsageGroupFields | 'model' }> = {
+  agent: { column: 'agent_id', alias: 'agent_id' },
+  user: { column: 'user_id', alias: 'user_id' },
+  model: { column: 'model', alias: 'model' },
+  session: { column: 'session_id', alias: 'session_id' },
+  day: { column: `date(timestamp, 'unixepoch')`, alias: 'period' },
+  week: { column: `date(timestamp, 'unixepoch', 'weekday 0', '-6 days')`, alias: 'period' },
+};
+
 const tracer: Tracer = trace.getTracer('agents-service', '1.0.0');
 
-type Role = 'user' | 'assistant' | 'system' | 'tool';
+/**
+ * Schema for conversation_history. Append new entries; never edit applied ones.
+ */
+const CONVERSATION_MIGRATIONS: Migration[] = [
+  {
+    id: 'conversation_history_001_create',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS conversation_history (
+        id TEXT PRIMARY KEY,
+        model TEXT,
+        finish_reason TEXT,
+        role TEXT NOT NULL,
+        completion_tokens INTEGER NOT NULL DEFAULT 0,
+        prompt_tokens INTEGER NOT NULL DEFAULT 0,
+        total_tokens INTEGER NOT NULL DEFAULT 0,
+        user_id TEXT,
+        chat_id TEXT,
+        session_id TEXT,
+        agent_id TEXT,
+        timestamp INTEGER NOT NULL,
+        message TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_conversation_history_user_ts ON conversation_history (user_id, timestamp)`,
+      `CREATE INDEX IF NOT EXISTS idx_conversation_history_session_ts ON conversation_history (session_id, timestamp)`,
+    ],
+  },
+  {
+    id: 'conversation_history_002_termination_reason',
+    statements: [
+      `ALTER TABLE conversation_history ADD COLUMN termination_reason TEXT`,
+    ],
+  },
+  {
+    id: 'conversation_summaries_001_create',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS conversation_summaries (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        summary TEXT NOT NULL,
+        message_count INTEGER NOT NULL,
+        model TEXT,
+        created_at INTEGER NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_conversation_summaries_session ON conversation_summaries (session_id, created_at)`,
+    ],
+  },
+  {
+    id: 'sessions_001_create',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        chat_id TEXT,
+        agent_id TEXT,
+        created_at INTEGER NOT NULL,
+        last_active_at INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active',
+        title TEXT,
+        summary TEXT
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_sessions_user_active ON sessions (user_id, last_active_at)`,
+      // Backfill from the sessions that were only implicit in conversation_history
+      `INSERT OR IGNORE INTO sessions (id, user_id, chat_id, agent_id, created_at, last_active_at, status)
+        SELECT session_id, MAX(user_id), MAX(chat_id), MAX(agent_id), MIN(timestamp), MAX(timestamp), 'active'
+        FROM conversation_history
+        WHERE session_id IS NOT NULL
+        GROUP BY session_id`,
+    ],
+  },
+  {
+    id: 'conversation_history_003_agent_ts_index',
+    statements: [
+      `CREATE INDEX IF NOT EXISTS idx_conversation_history_agent_ts ON conversation_history (agent_id, timestamp)`,
+    ],
+  },
+  {
+    id: 'conversation_history_004_ts_index',
+    statements: [
+      `CREATE INDEX IF NOT EXISTS idx_conversation_history_ts ON conversation_history (timestamp)`,
+    ],
+  },
+];
+
+function toSessionRecord(row: Row): SessionRecord {
+  return {
+    id: String(row.id),
+    user_id: row.user_id != null ? String(row.user_id) : null,
+    chat_id: row.chat_id != null ? String(row.chat_id) : null,
+    agent_id: row.agent_id != null ? String(row.agent_id) : null,
+    created_at: Number(row.created_at),
+    last_active_at: Number(row.last_active_at),
+    status: String(row.status) as SessionStatus,
+    title: row.title != null ? String(row.title) : null,
+    summary: row.summary != null ? String(row.summary) : null,
+  };
+}
+
+function toConversationRow(row: Row): ConversationRow {
+  return {
+    id: String(row.id),
+    model: String(row.model ?? ''),
+    finish_reason: row.finish_reason != null ? String(row.finish_reason) : null,
+    role: String(row.role) as Role,
+    completion_tokens: Number(row.completion_tokens ?? 0),
+    prompt_tokens: Number(row.prompt_tokens ?? 0),
+    total_tokens: Number(row.total_tokens ?? 0),
+    user_id: row.user_id != null ? String(row.user_id) : null,
+    chat_id: row.chat_id != null ? String(row.chat_id) : null,
+    session_id: row.session_id != null ? String(row.session_id) : null,
+    agent_id: row.agent_id != null ? String(row.agent_id) : null,
+    timestamp: Number(row.timestamp),
+    message: String(row.message),
+    termination_reason: row.termination_reason != null ? String(row.termination_reason) : null,
+  };
+}
+
+/**
+ * libSQL-backed ConversationStore. Works against a remote Turso database
+ * (`libsql://...`) or a local SQLite file (`file:...`).
+ */
+export class TursoClient implements ConversationStore {
+  private db: Client;
+  private schemaReady: Promise<void> | null = null;
 
-export class TursoClient {
-  private db;
+  constructor(options: { url: string; authToken?: string }) {
+    if (options.url.startsWith('file:')) {
+      // libSQL does not create missing parent directories for local files
+      mkdirSync(dirname(options.url.slice('file:'.length)), { recursive: true });
+    }
 
-  constructor() {
     this.db = createClient({
-      url: CONFIG.TURSO_URL!,
-      authToken: CONFIG.TURSO_AUTH_TOKEN!,
+      url: options.url,
+      authToken: options.authToken,
     });
   }
 
+  /** The underlying libSQL client, for stores that share this database. */
+  public get client(): Client {
+    return this.db;
+  }
+
+  /**
+   * Create or migrate the tables this store relies on. Runs once per instance;
+   * a failed attempt is retried on the next call.
+   */
+  public ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = runMigrations(this.db, CONVERSATION_MIGRATIONS)
+        .then(() => undefined)
+        .catch((err) => {
+          this.schemaReady = null;
+          throw err;
+        });
+    }
+    return this.schemaReady;
+  }
+
   /**
    * Log conversation message into conversation_history.
    * Stores all message content (tools, thinking_blocks, images) in `message`.
    */
-  public async logConversation(params: {
-    model: string;
-    role: Role;
-    finish_reason?: string | null;
-    completion_tokens?: number;
-    prompt_tokens?: number;
-    total_tokens?: number;
-    user_id?: string;
-    chat_id?: string;
-    session_id?: string;
-    agent_id?: string;
-    message: string;
-  }): Promise<void> {
+  public async logConversation(params: LogConversationParams): Promise<void> {
     // 1. Start Manual Span for Database Operation
     return tracer.startActiveSpan('TursoClient.logConversation', {
         attributes: {
@@ -60,16 +221,19 @@ export class TursoClient {
             session_id,
             agent_id,
             message,
+            termination_reason = null,
         } = params;
 
         try {
+            await this.ensureSchema();
             await this.db.execute({
                 sql: `
                   INSERT INTO conversation_history (
                     id, model, finish_reason, role,
                     completion_tokens, prompt_tokens, total_tokens,
-                    user_id, chat_id, session_id, agent_id, timestamp, message
-                  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                    user_id, chat_id, session_id, agent_id, timestamp, message,
+                    termination_reason
+                  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
                 `,
                 args: [
                     id,
@@ -85,6 +249,7 @@ export class TursoClient {
                     agent_id ?? null,
                     ts,
                     message,
+                    termination_reason,
                 ],
             });
             span.setStatus({ code: SpanStatusCode.OK });
@@ -100,7 +265,7 @@ export class TursoClient {
     });
   }
 
-  public async getLatestConversationByuser_id(user_id: string) {
+  public async getLatestConversationByuser_id(user_id: string): Promise<ConversationRow[]> {
     // 1. Start Manual Span for Database Operation
     return tracer.startActiveSpan('TursoClient.getLatestConversationByuser_id', {
         attributes: {
@@ -130,17 +295,18 @@ export class TursoClient {
               LIMIT 1
             )
           ORDER BY
-            timestamp ASC
+            timestamp ASC, rowid ASC
         `;
 
         try {
+            await this.ensureSchema();
             const res = await this.db.execute({
                 sql: sql,
                 args: [user_idStr],
             });
             span.setStatus({ code: SpanStatusCode.OK });
             span.end();
-            return res.rows ?? [];
+            return (res.rows ?? []).map(toConversationRow);
         } catch (err: any) {
             span.recordException(err);
             span.setStatus({ code: SpanStatusCode.ERROR, message: err.message });
@@ -150,7 +316,7 @@ export class TursoClient {
     });
   }
 
-  public async getLatestConversationBySessionId(sessionId: string) {
+  public async getLatestConversationBySessionId(sessionId: string): Promise<ConversationRow[]> {
     // 1. Start Manual Span for Database Operation
     return tracer.startActiveSpan('TursoClient.getLatestConversationBySessionId', {
         attributes: {
@@ -170,17 +336,18 @@ export class TursoClient {
           WHERE
             session_id = ?
           ORDER BY
-            timestamp ASC
+            timestamp ASC, rowid ASC
         `;
 
         try {
+            await this.ensureSchema();
             const res = await this.db.execute({
                 sql: sql,
                 args: [sessionIdStr],
             });
             span.setStatus({ code: SpanStatusCode.OK });
             span.end();
-            return res.rows ?? [];
+            return (res.rows ?? []).map(toConversationRow);
         } catch (err: any) {
             span.recordException(err);
             span.setStatus({ code: SpanStatusCode.ERROR, message: err.message });
@@ -205,6 +372,7 @@ export class TursoClient {
         const sql = `SELECT session_id, timestamp FROM conversation_history WHERE user_id = ? ORDER BY timestamp DESC LIMIT 1`;
 
         try {
+            await this.ensureSchema();
             const res = await this.db.execute({
                 sql: sql,
                 args: [user_idStr],
@@ -222,6 +390,281 @@ export class TursoClient {
         }
     });
   }
-}
 
-export const tursoClient = new TursoClient();
\ No newline at end of file
+  public async saveSummary(summary: Omit<ConversationSummary, 'created_at'>): Promise<void> {
+    return tracer.startActiveSpan('TursoClient.saveSummary', {
+        attributes: {
+            'db.system': DB_SYSTEM,
+            'db.operation': 'INSERT',
+            'db.collection.name': 'conversation_summaries',
+            'db.query.summary': 'INSERT conversation_summaries',
+        },
+    }, async (span) => {
+        try {
+            await this.ensureSchema();
+            await this.db.batch([
+                {
+                    sql: `
+                      INSERT INTO conversation_summaries (id, session_id, summary, message_count, model, created_at)
+                      VALUES (?, ?, ?, ?, ?, ?)
+                    `,
+                    args: [
+                        uuidv4(),
+                        summary.session_id,
+                        summary.summary,
+                        summary.message_count,
+                        summary.model,
+                        Math.floor(Date.now() / 1000),
+                    ],
+                },
+                {
+                    sql: 'UPDATE sessions SET summary = ? WHERE id = ?',
+                    args: [summary.summary, summary.session_id],
+                },
+            ], 'write');
+            span.setStatus({ code: SpanStatusCode.OK });
+            span.end();
+        } catch (err: any) {
+            span.recordException(err);
+            span.setStatus({ code: SpanStatusCode.ERROR, message: err.message });
+            span.end();
+            throw err;
+        }
+    });
+  }
+
+  public async getLatestSummary(sessionId: string): Promise<ConversationSummary | null> {
+    return tracer.startActiveSpan('TursoClient.getLatestSummary', {
+        attributes: {
+            'db.system': DB_SYSTEM,
+            'db.operation': 'SELECT',
+            'db.collection.name': 'conversation_summaries',
+            'db.query.summary': 'SELECT latest summary by session_id',
+        },
+    }, async (span) => {
+        try {
+            await this.ensureSchema();
+            const res = await this.db.execute({
+                sql: `
+                  SELECT session_id, summary, message_count, model, created_at
+                  FROM conversation_summaries
+                  WHERE session_id = ?
+                  ORDER BY created_at DESC, rowid DESC
+                  LIMIT 1
+                `,
+                args: [String(sessionId)],
+            });
+            span.setStatus({ code: SpanStatusCode.OK });
+            span.end();
+
+            const row = res.rows?.[0];
+            if (!row) return null;
+            return {
+                session_id: String(row.session_id),
+                summary: String(row.summary),
+                message_count: Number(row.message_count),
+                model: String(row.model ?? ''),
+                created_at: Number(row.created_at),
+            };
+        } catch (err: any) {
+            span.recordException(err);
+            span.setStatus({ code: SpanStatusCode.ERROR, message: err.message });
+            span.end();
+            throw err;
+        }
+    });
+  }
+
+  public async createSession(params: CreateSessionParams): Promise<SessionRecord> {
+    return this.traced('TursoClient.createSession', 'INSERT', 'sessions', 'INSERT sessions', async () => {
+        const now = Math.floor(Date.now() / 1000);
+        await this.db.execute({
+            sql: `
+              INSERT INTO sessions (id, user_id, chat_id, agent_id, created_at, last_active_at, status, title)
+              VALUES (?, ?, ?, ?, ?, ?, 'active', ?)
+            `,
+            args: [
+                params.id,
+                params.user_id ?? null,
+                params.chat_id ?? null,
+                params.agent_id ?? null,
+                now,
+                now,
+                params.title ?? null,
+            ],
+        });
+        return {
+            id: params.id,
+            user_id: params.user_id ?? null,
+            chat_id: params.chat_id ?? null,
+            agent_id: params.agent_id ?? null,
+            created_at: now,
+            last_active_at: now,
+            status: 'active' as const,
+            title: params.title ?? null,
+            summary: null,
+        };
+    });
+  }
+
+  public async getSessionById(sessionId: string): Promise<SessionRecord | null> {
+    return this.traced('TursoClient.getSessionById', 'SELECT', 'sessions', 'SELECT session by id', async () => {
+        const res = await this.db.execute({ sql: 'SELECT * FROM sessions WHERE id = ?', args: [String(sessionId)] });
+        const row = res.rows?.[0];
+        return row ? toSessionRecord(row) : null;
+    });
+  }
+
+  public async getLatestSessionByUser(user_id: string): Promise<SessionRecord | null> {
+    const [latest] = await this.listSessions({ user_id, limit: 1 });
+    return latest ?? null;
+  }
+
+  public async listSessions(filter: { user_id: string; status?: SessionStatus; limit?: number }): Promise<SessionRecord[]> {
+    return this.traced('TursoClient.listSessions', 'SELECT', 'sessions', 'SELECT sessions by user_id', async () => {
+        const res = await this.db.execute({
+            sql: `
+              SELECT * FROM sessions
+              WHERE user_id = ? AND (? IS NULL OR status = ?)
+              ORDER BY last_active_at DESC, rowid DESC
+              LIMIT ?
+            `,
+            args: [String(filter.user_id), filter.status ?? null, filter.status ?? null, filter.limit ?? 50],
+        });
+        return (res.rows ?? []).map(toSessionRecord);
+    });
+  }
+
+  public async touchSession(sessionId: string, updates: { agent_id?: string } = {}): Promise<void> {
+    return this.traced('TursoClient.touchSession', 'UPDATE', 'sessions', 'UPDATE session activity', async () => {
+        await this.db.execute({
+            sql: `
+              UPDATE sessions
+              SET last_active_at = ?, status = 'active', agent_id = COALESCE(?, agent_id)
+              WHERE id = ?
+            `,
+            args: [Math.floor(Date.now() / 1000), updates.agent_id ?? null, String(sessionId)],
+        });
+    });
+  }
+
+  public async updateSessionStatus(sessionId: string, status: SessionStatus): Promise<boolean> {
+    return this.traced('TursoClient.updateSessionStatus', 'UPDATE', 'sessions', 'UPDATE session status', async () => {
+        const res = await this.db.execute({
+            sql: 'UPDATE sessions SET status = ? WHERE id = ?',
+            args: [status, String(sessionId)],
+        });
+        return res.rowsAffected > 0;
+    });
+  }
+
+  public async deleteSession(sessionId: string): Promise<boolean> {
+    return this.traced('TursoClient.deleteSession', 'DELETE', 'sessions', 'DELETE session and history', async () => {
+        const id = String(sessionId);
+        const results = await this.db.batch([
+            { sql: 'DELETE FROM sessions WHERE id = ?', args: [id] },
+            { sql: 'DELETE FROM conversation_history WHERE session_id = ?', args: [id] },
+            { sql: 'DELETE FROM conversation_summaries WHERE session_id = ?', args: [id] },
+        ], 'write');
+        return results.some(r => r.rowsAffected > 0);
+    });
+  }
+
+  public async getTokenUsage(filter: { user_id?: string; agent_id?: string; since: number }): Promise<number> {
+    return this.traced('TursoClient.getTokenUsage', 'SELECT', 'conversation_history', 'SUM conversation_history tokens', async () => {
+        const userId = filter.user_id != null ? String(filter.user_id) : null;
+        const agentId = filter.agent_id ?? null;
+        const res = await this.db.execute({
+            sql: `
+              SELECT COALESCE(SUM(total_tokens), 0) AS tokens
+              FROM conversation_history
+              WHERE timestamp >= ? AND (? IS NULL OR user_id = ?) AND (? IS NULL OR agent_id = ?)
+            `,
+            args: [filter.since, userId, userId, agentId, agentId],
+        });
+        return Number(res.rows[0]?.tokens ?? 0);
+    });
+  }
+
+  public async getUsage(query: UsageQuery): Promise<UsageRow[]> {
+    return this.traced('TursoClient.getUsage', 'SELECT', 'conversation_history', 'SUM conversation_history usage', async () => {
+        const groups = [...new Set<UsageDimension>([...query.group_by, 'model'])].map(dim => USAGE_GROUP_COLUMNS[dim]);
+        const select = groups.map(({ column, alias }) => `${column} AS ${alias}`).join(', ');
+        const groupBy = groups.map(({ column }) => column).join(', ');
+
+        const where = ['timestamp >= ?', 'timestamp < ?'];
+        const args: (string | number)[] = [query.since, query.until];
+        for (const field of ['agent_id', 'user_id', 'session_id'] as const) {
+            if (query[field] == null) continue;
+            where.push(`${field} = ?`);
+            args.push(String(query[field]));
+        }
+
+        const res = await this.db.execute({
+            sql: `
+              SELECT ${select},
+                SUM(CASE WHEN role = 'assistant' AND COALESCE(finish_reason, '') != 'fallback' THEN 1 ELSE 0 END) AS llm_turns,
+                SUM(CASE WHEN role = 'tool' THEN 1 ELSE 0 END) AS tool_calls,
+                SUM(prompt_tokens) AS prompt_tokens,
+                SUM(completion_tokens) AS completion_tokens,
+                SUM(total_tokens) AS total_tokens
+              FROM conversation_history
+              WHERE ${where.join(' AND ')}
+              GROUP BY ${groupBy}
+            `,
+            args,
+        });
+        return res.rows.map(row => {
+            const fields: UsageGroupFields = {};
+            for (const { alias } of groups) {
+                if (alias === 'model') continue;
+                // Dates are never null
+                if (alias === 'period') fields.period = String(row.period);
+                else fields[alias] = row[alias] != null ? String(row[alias]) : null;
+            }
+            return {
+                model: String(row.model ?? ''),
+                llm_turns: Number(row.llm_turns ?? 0),
+                tool_calls: Number(row.tool_calls ?? 0),
+                prompt_tokens: Number(row.prompt_tokens ?? 0),
+                completion_tokens: Number(row.completion_tokens ?? 0),
+                total_tokens: Number(row.total_tokens ?? 0),
+                ...fields,
+            };
+        });
+    });
+  }
+
+  /**
+   * Run a query inside a database span, after making sure the schema exists.
+   */
+  private async traced<T>(
+    name: string,
+    operation: string,
+    collection: string,
+    summary: string,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    return tracer.startActiveSpan(name, {
+        attributes: {
+            'db.system': DB_SYSTEM,
+            'db.operation': operation,
+            'db.collection.name': collection,
+            'db.query.summary': summary,
+        },
+    }, async (span) => {
+        try {
+            await this.ensureSchema();
+            const result = await fn();
+            span.setStatus({ code: SpanStatusCode.OK });
+            return result;
+        } catch (err: any) {
+            span.recordException(err);
+            span.setStatus({ code: SpanStatusCode.ERROR, message: err.message });
+            throw err;
+        } finally {
+            span.end();
+        }
+    });
+  }
+}
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Event } from '../models/Event.js';
+import { describeStores } from '../testing/stores.js';
+import { EventDeduplicator, dedupeKeys } from './index.js';
+import { InMemoryDedupeStore, LibsqlDedupeStore } from './store.js';
+import type { DedupeStore } from './store.js';
+
+function event(id: string, sender: Event['sender'] = { source: 'watch-app', user_id: 'u1' }): Event {
+  return { id, agent_id: 'a1', timestamp: new Date().toISOString(), messages: [{ type: 'text', text: 'hi' }], sender, metadata: {} };
+}
+
+function telegramEvent(id: string): Event {
+  return event(id, { source: 'telegram', user_id: 'u1', chat_id: 100, message_id: 7 });
+}
+
+test('dedupeKeys adds the chat and message key for Telegram only', () => {
+  assert.deepEqual(dedupeKeys(event('e1')), ['event:e1']);
+  assert.deepEqual(dedupeKeys(telegramEvent('e1')), ['event:e1', 'telegram:100:7']);
+});
+
+describeStores<DedupeStore>(InMemoryDedupeStore, LibsqlDedupeStore, (createStore) => {
+  test('an event id in flight is reported as in_flight (409)', async () => {
+    const dedupe = new EventDeduplicator(createStore());
+    const first = await dedupe.claim(event('e1'));
+    assert.equal(first.status, 'claimed');
+
+    assert.deepEqual(await dedupe.claim(event('e1')), { status: 'in_flight', event_id: 'e1' });
+  });
+
+  test('a Telegram retry with a fresh event id is caught by chat and message id', async () => {
+    const dedupe = new EventDeduplicator(createStore());
+    assert.equal((await dedupe.claim(telegramEvent('e1'))).status, 'claimed');
+
+    assert.deepEqual(await dedupe.claim(telegramEvent('e2')), { status: 'in_flight', event_id: 'e1' });
+    // The fresh id's key was given back, so e2 is not left holding anything
+    assert.equal((await dedupe.claim(event('e2'))).status, 'claimed');
+  });
+
+  test('a completed event replays its response, by id and by Telegram key', async () => {
+    const dedupe = new EventDeduplicator(createStore());
+    const claim = await dedupe.claim(telegramEvent('e1'));
+    if (claim.status !== 'claimed') return assert.fail('expected a claim');
+    await dedupe.complete(telegramEvent('e1'), claim.token, { id: 'e1', messages: [{ type: 'text', text: 'done' }] });
+
+    const expected = { status: 'completed', event_id: 'e1', response: { id: 'e1', messages: [{ type: 'text', text: 'done' }] } };
+    assert.deepEqual(await dedupe.claim(telegramEvent('e1')), expected);
+    assert.deepEqual(await dedupe.claim(telegramEvent('e9')), expected);
+  });
+
+  test('a released claim lets a retry run again', async () => {
+    const dedupe = new EventDeduplicator(createStore());
+    const claim = await dedupe.claim(telegramEvent('e1'));
+    if (claim.status !== 'claimed') return assert.fail('expected a claim');
+    await dedupe.release(telegramEvent('e1'), claim.token);
+
+    assert.equal((await dedupe.claim(telegramEvent('e1'))).status, 'claimed');
+  });
+
+  test('a run whose claim was taken over cannot release or complete the new claim', async () => {
+    const store = createStore();
+    // An expired lease is taken over by the next claim
+    assert.equal(await store.claim('event:e1', 'e1', 'old', -1), null);
+    assert.equal(await store.claim('event:e1', 'e1', 'new', 60_000), null);
+
+    await store.release('event:e1', 'old');
+    await store.complete('event:e1', 'old', '{"stale":true}', 60_000);
+
+    const live = await store.claim('event:e1', 'e1', 'third', 60_000);
+    assert.equal(live?.claim_token, 'new');
+    assert.equal(live?.status, 'in_flight');
+    assert.equal(live?.response, null);
+  });
+
+  test('release leaves a completed record in place', async () => {
+    const store = createStore();
+    await store.claim('event:e1', 'e1', 't1', 60_000);
+    await store.complete('event:e1', 't1', '{"ok":true}', 60_000);
+    await store.release('event:e1', 't1');
+
+    assert.equal((await store.claim('event:e1', 'e1', 't2', 60_000))?.status, 'completed');
+  });
+});
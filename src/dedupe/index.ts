@@ -0,0 +1,82 @@
+import { trace } from '@opentelemetry/api';
+import { v4 as uuidv4 } from 'uuid';
+import type { Event } from '../models/Event.js';
+import { CONFIG } from '../utils/config.js';
+import { dedupeStore } from './store.js';
+import type { DedupeStore } from './store.js';
+
+/** How long a run may hold its claim before a retry is allowed to take over. */
+const IN_FLIGHT_TTL_MS = 15 * 60_000;
+
+export type DedupeClaim =
+  | { status: 'claimed'; token: string }
+  | { status: 'in_flight'; event_id: string }
+  | { status: 'completed'; event_id: string; response: unknown };
+
+/**
+ * Keys identifying an event: always its id, plus chat and message id for
+ * Telegram, whose webhook retries may arrive with a fresh event id.
+ */
+export function dedupeKeys(event: Event): string[] {
+  const keys = [`event:${event.id}`];
+  const { source, chat_id, message_id } = event.sender ?? {};
+  if (source === 'telegram' && chat_id != null && message_id != null) {
+    keys.push(`telegram:${chat_id}:${message_id}`);
+  }
+  return keys;
+}
+
+/**
+ * Makes event handling idempotent. A caller claims an event before handling
+ * it, then either completes it with the Response (cached for
+ * DEDUPE_TTL_HOURS) or releases it on failure so a retry can run again.
+ * Both take the claim's token, so a run whose claim expired and was taken
+ * over cannot touch the new owner's record.
+ */
+export class EventDeduplicator {
+  constructor(
+    private store: DedupeStore = dedupeStore,
+    private ttlMs: number = CONFIG.DEDUPE_TTL_HOURS * 3_600_000,
+  ) {}
+
+  public async claim(event: Event): Promise<DedupeClaim> {
+    const keys = dedupeKeys(event);
+    const token = uuidv4();
+    const claimed: string[] = [];
+
+    for (const key of keys) {
+      const existing = await this.store.claim(key, event.id, token, IN_FLIGHT_TTL_MS);
+      if (!existing) {
+        claimed.push(key);
+        continue;
+      }
+
+      // Give back what this call took so the original run stays the only owner
+      await Promise.all(claimed.map(k => this.store.release(k, token)));
+      trace.getActiveSpan()?.setAttributes({ 'event.duplicate': true, 'event.duplicate_of': existing.event_id });
+      console.log(`🔁 Duplicate event ${event.id} (${key}), status ${existing.status}`);
+
+      if (existing.status === 'completed') {
+        return {
+          status: 'completed',
+          event_id: existing.event_id,
+          response: existing.response ? JSON.parse(existing.response) : null,
+        };
+      }
+      return { status: 'in_flight', event_id: existing.event_id };
+    }
+
+    return { status: 'claimed', token };
+  }
+
+  public async complete(event: Event, token: string, response: unknown): Promise<void> {
+    const body = JSON.stringify(response ?? { ok: true });
+    await Promise.all(dedupeKeys(event).map(key => this.store.complete(key, token, body, this.ttlMs)));
+  }
+
+  public async release(event: Event, token: string): Promise<void> {
+    await Promise.all(dedupeKeys(event).map(key => this.store.release(key, token)));
+  }
+}
+
+export const eventDeduplicator = new EventDeduplicator();
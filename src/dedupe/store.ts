@@ -0,0 +1,172 @@
+import type { Client, Row } from '@libsql/client';
+import { runMigrations, Migration } from '../utils/migrations.js';
+import { conversationStore } from '../clients/conversationStore.js';
+import { TursoClient } from '../clients/turso.js';
+
+export type DedupeStatus = 'in_flight' | 'completed';
+
+/**
+ * One dedupe key (e.g. `event:<id>`). The record is ignored once `expires_at`
+ * (unix milliseconds) has passed, which also frees leases of crashed runs.
+ */
+export interface DedupeRecord {
+  key: string;
+  event_id: string;
+  /** Identifies the run holding the claim; only it may complete or release the record. */
+  claim_token: string;
+  status: DedupeStatus;
+  /** JSON of the Response returned to the first caller, once completed. */
+  response: string | null;
+  expires_at: number;
+  created_at: number;
+}
+
+export interface DedupeStore {
+  /**
+   * Atomically claim `key` as in flight for `token` unless a live record exists.
+   * Returns null on success, otherwise the live record.
+   */
+  claim(key: string, eventId: string, token: string, ttlMs: number): Promise<DedupeRecord | null>;
+  /** Store the response, if `token` still holds the claim. */
+  complete(key: string, token: string, response: string, ttlMs: number): Promise<void>;
+  /** Drop the claim if `token` still holds it and it is in flight, so a later run that took over keeps its own. */
+  release(key: string, token: string): Promise<void>;
+}
+
+const DEDUPE_MIGRATIONS: Migration[] = [
+  {
+    id: 'processed_events_001_create',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS processed_events (
+        key TEXT PRIMARY KEY,
+        event_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        response TEXT,
+        expires_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_processed_events_expires ON processed_events (expires_at)`,
+    ],
+  },
+  {
+    id: 'processed_events_002_claim_token',
+    statements: [
+      `ALTER TABLE processed_events ADD COLUMN claim_token TEXT`,
+    ],
+  },
+];
+
+function toDedupeRecord(row: Row): DedupeRecord {
+  return {
+    key: String(row.key),
+    event_id: String(row.event_id),
+    claim_token: String(row.claim_token ?? ''),
+    status: String(row.status) as DedupeStatus,
+    response: row.response != null ? String(row.response) : null,
+    expires_at: Number(row.expires_at),
+    created_at: Number(row.created_at),
+  };
+}
+
+/**
+ * Dedupe records persisted in the same libSQL database as conversation history,
+ * so duplicates are caught across instances and restarts.
+ */
+export class LibsqlDedupeStore implements DedupeStore {
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(private db: Client) {}
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = runMigrations(this.db, DEDUPE_MIGRATIONS)
+        .then(() => undefined)
+        .catch((err) => {
+          this.schemaReady = null;
+          throw err;
+        });
+    }
+    return this.schemaReady;
+  }
+
+  public async claim(key: string, eventId: string, token: string, ttlMs: number): Promise<DedupeRecord | null> {
+    await this.ensureSchema();
+    const now = Date.now();
+    // Takes over expired records; leaves live ones untouched
+    const res = await this.db.execute({
+      sql: `
+        INSERT INTO processed_events (key, event_id, claim_token, status, response, expires_at, created_at)
+        VALUES (?, ?, ?, 'in_flight', NULL, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET
+          event_id = excluded.event_id,
+          claim_token = excluded.claim_token,
+          status = excluded.status,
+          response = NULL,
+          expires_at = excluded.expires_at,
+          created_at = excluded.created_at
+        WHERE processed_events.expires_at <= ?
+      `,
+      args: [key, eventId, token, now + ttlMs, now, now],
+    });
+    if (res.rowsAffected > 0) return null;
+
+    const existing = await this.db.execute({ sql: 'SELECT * FROM processed_events WHERE key = ?', args: [key] });
+    return existing.rows[0] ? toDedupeRecord(existing.rows[0]) : null;
+  }
+
+  public async complete(key: string, token: string, response: string, ttlMs: number): Promise<void> {
+    await this.ensureSchema();
+    await this.db.execute({
+      sql: `UPDATE processed_events SET status = 'completed', response = ?, expires_at = ? WHERE key = ? AND claim_token = ?`,
+      args: [response, Date.now() + ttlMs, key, token],
+    });
+  }
+
+  public async release(key: string, token: string): Promise<void> {
+    await this.ensureSchema();
+    await this.db.execute({
+      sql: `DELETE FROM processed_events WHERE key = ? AND claim_token = ? AND status = 'in_flight'`,
+      args: [key, token],
+    });
+  }
+}
+
+/**
+ * Process-local dedupe records for offline development and tests.
+ */
+export class InMemoryDedupeStore implements DedupeStore {
+  private records = new Map<string, DedupeRecord>();
+
+  public async claim(key: string, eventId: string, token: string, ttlMs: number): Promise<DedupeRecord | null> {
+    const now = Date.now();
+    const existing = this.records.get(key);
+    if (existing && existing.expires_at > now) return { ...existing };
+
+    this.records.set(key, { key, event_id: eventId, claim_token: token, status: 'in_flight', response: null, expires_at: now + ttlMs, created_at: now });
+    return null;
+  }
+
+  public async complete(key: string, token: string, response: string, ttlMs: number): Promise<void> {
+    const record = this.records.get(key);
+    if (record?.claim_token !== token) return;
+    record.status = 'completed';
+    record.response = response;
+    record.expires_at = Date.now() + ttlMs;
+  }
+
+  public async release(key: string, token: string): Promise<void> {
+    const record = this.records.get(key);
+    if (record?.claim_token === token && record.status === 'in_flight') this.records.delete(key);
+  }
+}
+
+/**
+ * Use the conversation store's libSQL database when there is one, else memory.
+ */
+export function createDedupeStore(): DedupeStore {
+  return conversationStore instanceof TursoClient
+    ? new LibsqlDedupeStore(conversationStore.client)
+    : new InMemoryDedupeStore();
+}
+
+export const dedupeStore: DedupeStore = createDedupeStore();
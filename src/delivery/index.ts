@@ -0,0 +1,62 @@
+import { Router } from "express";
+import { deliveryStore } from "./store.js";
+import type { DeliveryStatus } from "./store.js";
+import { deliveryService } from "./service.js";
+
+const router = Router();
+
+const DELIVERY_STATUSES: DeliveryStatus[] = ["pending", "retrying", "delivered", "dead"];
+
+// GET deliveries, newest first: ?status=&event_id=&limit= (status=dead lists the dead-letter queue)
+router.get("/", async (req, res) => {
+    try {
+        const { status, event_id, limit } = req.query;
+
+        if (status && !DELIVERY_STATUSES.includes(status.toString() as DeliveryStatus)) {
+            return res.status(400).json({ ok: false, error: `status must be one of: ${DELIVERY_STATUSES.join(", ")}` });
+        }
+
+        const deliveries = await deliveryStore.list({
+            status: status ? (status.toString() as DeliveryStatus) : undefined,
+            event_id: event_id ? event_id.toString() : undefined,
+            limit: limit ? Math.min(Number(limit) || 50, 200) : undefined,
+        });
+        res.json({ ok: true, deliveries });
+    } catch (err: any) {
+        res.status(500).json({ ok: false, error: err.message });
+    }
+});
+
+// POST retry every delivery whose backoff has elapsed (for cron on serverless deployments)
+router.post("/sweep", async (_req, res) => {
+    try {
+        const processed = await deliveryService.sweep();
+        res.json({ ok: true, processed });
+    } catch (err: any) {
+        res.status(500).json({ ok: false, error: err.message });
+    }
+});
+
+// GET a single delivery including its payload
+router.get("/:id", async (req, res) => {
+    try {
+        const delivery = await deliveryStore.get(req.params.id);
+        if (!delivery) return res.status(404).json({ ok: false, error: "Delivery not found" });
+        res.json({ ok: true, delivery });
+    } catch (err: any) {
+        res.status(500).json({ ok: false, error: err.message });
+    }
+});
+
+// POST replay a delivery now, e.g. from the dead-letter queue
+router.post("/:id/replay", async (req, res) => {
+    try {
+        const result = await deliveryService.replay(req.params.id);
+        if (!result) return res.status(404).json({ ok: false, error: "Delivery not found" });
+        res.json({ ok: result.status === "delivered", delivery: result });
+    } catch (err: any) {
+        res.status(500).json({ ok: false, error: err.message });
+    }
+});
+
+export default router;
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Response as ReplyPayload } from '../models/Response.js';
+import { DeliveryService } from './service.js';
+import { InMemoryDeliveryStore } from './store.js';
+
+/** Bodies posted to the fake integration endpoint. */
+let posted: string[] = [];
+const realFetch = globalThis.fetch;
+
+beforeEach(() => {
+  posted = [];
+  globalThis.fetch = async (_url, init) => {
+    posted.push(String(init?.body));
+    return new Response('{}', { status: 200 });
+  };
+});
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+function reply(text: string): ReplyPayload {
+  return { id: 'e1', recipients: [{ channel: 'telegram', chat_id: 100 }], messages: [{ type: 'text', text }], metadata: {} };
+}
+
+test('a retried event with a different reply reuses its delivery', async () => {
+  const service = new DeliveryService(new InMemoryDeliveryStore(), { default: 'https://int.example/send' });
+  const first = await service.deliver({ eventId: 'e1', channel: 'telegram', payload: reply('Hello') });
+  const retry = await service.deliver({ eventId: 'e1', channel: 'telegram', payload: reply('Hi there') });
+
+  assert.equal(retry.id, first.id);
+  assert.equal(retry.status, 'delivered');
+  assert.equal(posted.length, 1);
+});
+
+test('placeholder edits are each posted', async () => {
+  const service = new DeliveryService(new InMemoryDeliveryStore(), { default: 'https://int.example/send' });
+  await service.deliver({ eventId: 'e1', channel: 'telegram', payload: reply('Thinking…'), durable: false });
+  await service.deliver({ eventId: 'e1', channel: 'telegram', payload: reply('Searching…'), durable: false });
+
+  assert.equal(posted.length, 2);
+});
@@ -0,0 +1,320 @@
+import { createHash } from 'crypto';
+import { trace, SpanStatusCode, Tracer } from '@opentelemetry/api';
+import type { Response } from '../models/Response.js';
+import { CONFIG } from '../utils/config.js';
+import { deliveryStore } from './store.js';
+import type { DeliveryRecord, DeliveryStatus, DeliveryStore } from './store.js';
+
+const tracer: Tracer = trace.getTracer('agents-service', '1.0.0');
+
+const DEFAULT_ENDPOINT = 'https://royzheng-integrations.hf.space/api/send-response';
+const REQUEST_TIMEOUT_MS = 10_000;
+/** Attempts made while the caller waits, before handing off to the sweeper. */
+const INLINE_ATTEMPTS = 2;
+const INLINE_RETRY_DELAY_MS = 500;
+/** Longer waits between inline attempts are left to the sweeper. */
+const MAX_INLINE_DELAY_MS = 2_000;
+/**
+ * A new record becomes due once its inline attempts must have finished, so the
+ * sweeper picks it up if the process stopped before they were made.
+ */
+const INLINE_WINDOW_MS = INLINE_ATTEMPTS * (REQUEST_TIMEOUT_MS + MAX_INLINE_DELAY_MS);
+const MAX_BACKOFF_MS = 10 * 60_000;
+const SWEEP_BATCH_SIZE = 20;
+
+/**
+ * Outcome of one delivery, returned to the caller of `sendResponse`.
+ */
+export interface DeliveryResult {
+  id: string;
+  channel: string;
+  status: DeliveryStatus;
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+}
+
+interface AttemptOutcome {
+  ok: boolean;
+  retryable: boolean;
+  statusCode: number | null;
+  error: string | null;
+  retryAfterMs: number | null;
+}
+
+/**
+ * Parse `DELIVERY_ENDPOINTS`, a JSON object mapping channels to integration
+ * URLs. The `default` key is used for channels without their own entry.
+ */
+export function parseEndpoints(raw: string | undefined): Record<string, string> {
+  if (!raw) return { default: DEFAULT_ENDPOINT };
+  try {
+    const parsed = JSON.parse(raw) as Record<string, string>;
+    return { default: DEFAULT_ENDPOINT, ...parsed };
+  } catch (err) {
+    console.error('❌ DELIVERY_ENDPOINTS is not valid JSON, using the default endpoint:', err);
+    return { default: DEFAULT_ENDPOINT };
+  }
+}
+
+/** Seconds or an HTTP date, per RFC 9110. */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+function toResult(record: DeliveryRecord): DeliveryResult {
+  return {
+    id: record.id,
+    channel: record.channel,
+    status: record.status,
+    attempts: record.attempts,
+    last_status_code: record.last_status_code,
+    last_error: record.last_error,
+  };
+}
+
+/** Outbox record for a payload about to be attempted inline. */
+export function newDeliveryRecord(id: string, eventId: string, channel: string, endpoint: string, payload: string): DeliveryRecord {
+  const now = Date.now();
+  return {
+    id,
+    event_id: eventId,
+    channel,
+    endpoint,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    last_error: null,
+    last_status_code: null,
+    next_attempt_at: now + INLINE_WINDOW_MS,
+    created_at: now,
+    updated_at: now,
+    delivered_at: null,
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Delivers responses to the integration endpoint configured for each channel.
+ *
+ * Durable deliveries go through an outbox: the record is stored first, a couple
+ * of attempts are made inline, and anything still failing with a retryable
+ * error (network, 408, 429, 5xx) is retried in the background with exponential
+ * backoff, honouring `Retry-After`. Deliveries that run out of attempts or get
+ * a non-retryable 4xx are marked `dead` and can be replayed through
+ * `/api/deliveries`. The record id is sent as the `Idempotency-Key` header.
+ *
+ * Non-durable deliveries (progress edits) are attempted once and not stored, and
+ * so are durable ones when the outbox cannot be written. Outbox errors are logged
+ * rather than thrown, as the run that produced the payload has already finished.
+ */
+export class DeliveryService {
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+
+  constructor(
+    private store: DeliveryStore,
+    private endpoints: Record<string, string> = parseEndpoints(CONFIG.DELIVERY_ENDPOINTS),
+    private maxAttempts: number = CONFIG.DELIVERY_MAX_ATTEMPTS,
+    private retryBaseMs: number = CONFIG.DELIVERY_RETRY_BASE_MS,
+  ) {}
+
+  public endpointFor(channel: string): string {
+    return this.endpoints[channel] ?? this.endpoints.default;
+  }
+
+  /**
+   * Deliver one payload for one channel. A durable delivery is identified by the
+   * event, channel, endpoint and `part`, not by its content, so a retried event
+   * whose reply came out differently still maps to the same record.
+   */
+  public async deliver({ eventId, channel, payload, durable = true, part = 0 }: {
+    eventId: string;
+    channel: string;
+    payload: Response;
+    durable?: boolean;
+    /** Index of this delivery among the event's durable ones, when it has several. */
+    part?: number;
+  }): Promise<DeliveryResult> {
+    const endpoint = this.endpointFor(channel);
+    const body = JSON.stringify(payload);
+    // Edits are not stored, and each one must reach the endpoint under its own key
+    const key = durable ? `${eventId}\n${channel}\n${endpoint}\n${part}` : `${eventId}\n${channel}\n${endpoint}\n${body}`;
+    const id = createHash('sha256').update(key).digest('hex').slice(0, 32);
+
+    return tracer.startActiveSpan('Delivery.deliver', {
+      attributes: {
+        'delivery.id': id,
+        'delivery.channel': channel,
+        'delivery.endpoint': endpoint,
+        'delivery.durable': durable,
+        'event.id': eventId,
+      },
+    }, async (span) => {
+      try {
+        let result: DeliveryResult;
+        // Without an outbox record the payload is sent once, like a non-durable one
+        const stored = durable ? await this.store.insertIfAbsent(newDeliveryRecord(id, eventId, channel, endpoint, body)).catch(err => {
+          console.error(`❌ Failed to store delivery ${id}, sending it without retries:`, err);
+          return null;
+        }) : null;
+
+        if (!stored) {
+          const outcome = await this.post(endpoint, body, id);
+          result = {
+            id,
+            channel,
+            status: outcome.ok ? 'delivered' : 'dead',
+            attempts: 1,
+            last_status_code: outcome.statusCode,
+            last_error: outcome.error,
+          };
+        } else {
+          let record = stored;
+          // A retried event must not post the same response twice
+          if (record.status !== 'delivered') {
+            for (let i = 0; i < INLINE_ATTEMPTS; i++) {
+              const { record: updated, retryAfterMs } = await this.attempt(record);
+              record = updated;
+              if (record.status !== 'retrying' || i === INLINE_ATTEMPTS - 1) break;
+              const delay = retryAfterMs ?? INLINE_RETRY_DELAY_MS;
+              if (delay > MAX_INLINE_DELAY_MS) break;
+              await sleep(delay);
+            }
+          }
+          result = toResult(record);
+        }
+
+        span.setAttributes({
+          'delivery.status': result.status,
+          'delivery.attempts': result.attempts,
+          ...(result.last_status_code != null ? { 'delivery.status_code': result.last_status_code } : {}),
+        });
+        if (result.status === 'dead') {
+          span.setStatus({ code: SpanStatusCode.ERROR, message: result.last_error ?? 'Delivery failed' });
+        } else {
+          span.setStatus({ code: SpanStatusCode.OK });
+        }
+        return result;
+      } catch (err) {
+        span.recordException(err as Error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: (err as Error).message });
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Send a stored delivery again, whatever its status. Dead deliveries get a
+   * fresh attempt budget.
+   */
+  public async replay(id: string): Promise<DeliveryResult | null> {
+    const record = await this.store.get(id);
+    if (!record) return null;
+    const { record: updated } = await this.attempt({ ...record, attempts: 0 });
+    return toResult(updated);
+  }
+
+  /**
+   * Attempt every delivery whose retry is due. Returns the number processed.
+   */
+  public async sweep(): Promise<number> {
+    if (this.sweeping) return 0;
+    this.sweeping = true;
+    try {
+      const due = await this.store.listDue(Date.now(), SWEEP_BATCH_SIZE);
+      for (const record of due) {
+        await this.attempt(record);
+      }
+      return due.length;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  /** Retry due deliveries in the background of a long-running server. */
+  public start(intervalMs: number = 5_000): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.sweep().catch(err => console.error('❌ Delivery sweep failed:', err));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async attempt(record: DeliveryRecord): Promise<{ record: DeliveryRecord; retryAfterMs: number | null }> {
+    const outcome = await this.post(record.endpoint, record.payload, record.id);
+    const now = Date.now();
+    const attempts = record.attempts + 1;
+
+    let changes: Partial<DeliveryRecord>;
+    if (outcome.ok) {
+      changes = { status: 'delivered', delivered_at: now, next_attempt_at: null };
+    } else if (outcome.retryable && attempts < this.maxAttempts) {
+      const backoff = Math.min(this.retryBaseMs * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+      changes = { status: 'retrying', next_attempt_at: now + Math.max(backoff, outcome.retryAfterMs ?? 0) };
+    } else {
+      changes = { status: 'dead', next_attempt_at: null };
+      console.error(`❌ Delivery ${record.id} to ${record.channel} is dead after ${attempts} attempt(s): ${outcome.error}`);
+    }
+
+    changes = {
+      ...changes,
+      attempts,
+      last_error: outcome.error,
+      last_status_code: outcome.statusCode,
+      updated_at: now,
+    };
+    // The payload went out either way; its idempotency key covers a repeat by the sweep
+    await this.store.update(record.id, changes)
+      .catch(err => console.error(`❌ Failed to record an attempt of delivery ${record.id}:`, err));
+    return { record: { ...record, ...changes }, retryAfterMs: outcome.retryAfterMs };
+  }
+
+  private async post(endpoint: string, body: string, idempotencyKey: string): Promise<AttemptOutcome> {
+    try {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer ' + CONFIG.INT_API_KEY!,
+          'Idempotency-Key': idempotencyKey,
+        },
+        body,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      if (res.ok) return { ok: true, retryable: false, statusCode: res.status, error: null, retryAfterMs: null };
+
+      const detail = (await res.text().catch(() => '')).slice(0, 500);
+      console.error(`❌ Failed to send response: ${res.status} ${res.statusText}`);
+      return {
+        ok: false,
+        retryable: isRetryableStatus(res.status),
+        statusCode: res.status,
+        error: `${res.status} ${res.statusText}${detail ? `: ${detail}` : ''}`,
+        retryAfterMs: parseRetryAfter(res.headers.get('retry-after')),
+      };
+    } catch (err) {
+      console.error('❌ Network error while sending response:', err);
+      return { ok: false, retryable: true, statusCode: null, error: (err as Error).message, retryAfterMs: null };
+    }
+  }
+}
+
+export const deliveryService = new DeliveryService(deliveryStore);
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeStores } from '../testing/stores.js';
+import { newDeliveryRecord } from './service.js';
+import { InMemoryDeliveryStore, LibsqlDeliveryStore } from './store.js';
+import type { DeliveryStore } from './store.js';
+
+describeStores<DeliveryStore>(InMemoryDeliveryStore, LibsqlDeliveryStore, (createStore) => {
+  test('a fresh pending record becomes due, so a crash before its first attempt is retried', async () => {
+    const store = createStore();
+    const record = await store.insertIfAbsent(newDeliveryRecord('d1', 'e1', 'telegram', 'https://int.example/send', '{}'));
+    assert.equal(record.status, 'pending');
+    assert.ok(record.next_attempt_at != null);
+
+    // Left alone while the inline attempts may still be running
+    assert.deepEqual(await store.listDue(record.created_at, 10), []);
+    assert.deepEqual((await store.listDue(record.next_attempt_at, 10)).map(r => r.id), ['d1']);
+  });
+
+  test('delivered and dead records are never due', async () => {
+    const store = createStore();
+    const delivered = await store.insertIfAbsent(newDeliveryRecord('d1', 'e1', 'telegram', 'https://int.example/send', '{}'));
+    await store.insertIfAbsent(newDeliveryRecord('d2', 'e2', 'telegram', 'https://int.example/send', '{}'));
+    await store.update('d1', { status: 'delivered', delivered_at: Date.now(), next_attempt_at: null });
+    await store.update('d2', { status: 'dead', next_attempt_at: null });
+
+    assert.deepEqual(await store.listDue(delivered.next_attempt_at! + 60_000, 10), []);
+  });
+});
@@ -0,0 +1,219 @@
+import type { Client, Row } from '@libsql/client';
+import { runMigrations, Migration } from '../utils/migrations.js';
+import { updateByIdStatement } from '../utils/sql.js';
+import { conversationStore } from '../clients/conversationStore.js';
+import { TursoClient } from '../clients/turso.js';
+
+export type DeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'dead';
+
+/**
+ * One outbound payload to one integration endpoint. `id` doubles as the
+ * idempotency key sent to the endpoint, so replays never double-post.
+ * Timestamps are unix milliseconds.
+ */
+export interface DeliveryRecord {
+  id: string;
+  event_id: string;
+  channel: string;
+  endpoint: string;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  last_error: string | null;
+  last_status_code: number | null;
+  next_attempt_at: number | null;
+  created_at: number;
+  updated_at: number;
+  delivered_at: number | null;
+}
+
+export interface DeliveryFilter {
+  status?: DeliveryStatus;
+  event_id?: string;
+  limit?: number;
+}
+
+export interface DeliveryStore {
+  /** Insert the record unless one with the same id exists; returns the stored record. */
+  insertIfAbsent(record: DeliveryRecord): Promise<DeliveryRecord>;
+  update(id: string, changes: Partial<Omit<DeliveryRecord, 'id'>>): Promise<void>;
+  get(id: string): Promise<DeliveryRecord | null>;
+  list(filter?: DeliveryFilter): Promise<DeliveryRecord[]>;
+  /** Pending or retrying records whose `next_attempt_at` has passed. */
+  listDue(now: number, limit: number): Promise<DeliveryRecord[]>;
+}
+
+const DELIVERY_MIGRATIONS: Migration[] = [
+  {
+    id: 'deliveries_001_create',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS deliveries (
+        id TEXT PRIMARY KEY,
+        event_id TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        endpoint TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        last_status_code INTEGER,
+        next_attempt_at INTEGER,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        delivered_at INTEGER
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_deliveries_status_next ON deliveries (status, next_attempt_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_deliveries_event ON deliveries (event_id)`,
+    ],
+  },
+];
+
+function toDeliveryRecord(row: Row): DeliveryRecord {
+  return {
+    id: String(row.id),
+    event_id: String(row.event_id),
+    channel: String(row.channel),
+    endpoint: String(row.endpoint),
+    payload: String(row.payload),
+    status: String(row.status) as DeliveryStatus,
+    attempts: Number(row.attempts),
+    last_error: row.last_error != null ? String(row.last_error) : null,
+    last_status_code: row.last_status_code != null ? Number(row.last_status_code) : null,
+    next_attempt_at: row.next_attempt_at != null ? Number(row.next_attempt_at) : null,
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+    delivered_at: row.delivered_at != null ? Number(row.delivered_at) : null,
+  };
+}
+
+/**
+ * Outbox persisted in the same libSQL database as conversation history.
+ */
+export class LibsqlDeliveryStore implements DeliveryStore {
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(private db: Client) {}
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = runMigrations(this.db, DELIVERY_MIGRATIONS)
+        .then(() => undefined)
+        .catch((err) => {
+          this.schemaReady = null;
+          throw err;
+        });
+    }
+    return this.schemaReady;
+  }
+
+  public async insertIfAbsent(record: DeliveryRecord): Promise<DeliveryRecord> {
+    await this.ensureSchema();
+    await this.db.execute({
+      sql: `
+        INSERT OR IGNORE INTO deliveries (
+          id, event_id, channel, endpoint, payload, status, attempts, last_error,
+          last_status_code, next_attempt_at, created_at, updated_at, delivered_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      args: [
+        record.id, record.event_id, record.channel, record.endpoint, record.payload, record.status,
+        record.attempts, record.last_error, record.last_status_code, record.next_attempt_at,
+        record.created_at, record.updated_at, record.delivered_at,
+      ],
+    });
+    return (await this.get(record.id))!;
+  }
+
+  public async update(id: string, changes: Partial<Omit<DeliveryRecord, 'id'>>): Promise<void> {
+    await this.ensureSchema();
+    const statement = updateByIdStatement('deliveries', id, changes);
+    if (statement) await this.db.execute(statement);
+  }
+
+  public async get(id: string): Promise<DeliveryRecord | null> {
+    await this.ensureSchema();
+    const res = await this.db.execute({ sql: 'SELECT * FROM deliveries WHERE id = ?', args: [id] });
+    return res.rows[0] ? toDeliveryRecord(res.rows[0]) : null;
+  }
+
+  public async list(filter: DeliveryFilter = {}): Promise<DeliveryRecord[]> {
+    await this.ensureSchema();
+    const res = await this.db.execute({
+      sql: `
+        SELECT * FROM deliveries
+        WHERE (? IS NULL OR status = ?) AND (? IS NULL OR event_id = ?)
+        ORDER BY created_at DESC
+        LIMIT ?
+      `,
+      args: [
+        filter.status ?? null, filter.status ?? null,
+        filter.event_id ?? null, filter.event_id ?? null,
+        filter.limit ?? 50,
+      ],
+    });
+    return res.rows.map(toDeliveryRecord);
+  }
+
+  public async listDue(now: number, limit: number): Promise<DeliveryRecord[]> {
+    await this.ensureSchema();
+    const res = await this.db.execute({
+      sql: `
+        SELECT * FROM deliveries
+        WHERE status IN ('pending', 'retrying') AND next_attempt_at IS NOT NULL AND next_attempt_at <= ?
+        ORDER BY next_attempt_at ASC
+        LIMIT ?
+      `,
+      args: [now, limit],
+    });
+    return res.rows.map(toDeliveryRecord);
+  }
+}
+
+/**
+ * Process-local outbox for offline development and tests.
+ */
+export class InMemoryDeliveryStore implements DeliveryStore {
+  private records = new Map<string, DeliveryRecord>();
+
+  public async insertIfAbsent(record: DeliveryRecord): Promise<DeliveryRecord> {
+    if (!this.records.has(record.id)) this.records.set(record.id, { ...record });
+    return { ...this.records.get(record.id)! };
+  }
+
+  public async update(id: string, changes: Partial<Omit<DeliveryRecord, 'id'>>): Promise<void> {
+    const record = this.records.get(id);
+    if (record) Object.assign(record, changes);
+  }
+
+  public async get(id: string): Promise<DeliveryRecord | null> {
+    const record = this.records.get(id);
+    return record ? { ...record } : null;
+  }
+
+  public async list(filter: DeliveryFilter = {}): Promise<DeliveryRecord[]> {
+    return [...this.records.values()]
+      .filter(r => (!filter.status || r.status === filter.status) && (!filter.event_id || r.event_id === filter.event_id))
+      .sort((a, b) => b.created_at - a.created_at)
+      .slice(0, filter.limit ?? 50)
+      .map(r => ({ ...r }));
+  }
+
+  public async listDue(now: number, limit: number): Promise<DeliveryRecord[]> {
+    return [...this.records.values()]
+      .filter(r => (r.status === 'pending' || r.status === 'retrying') && r.next_attempt_at != null && r.next_attempt_at <= now)
+      .sort((a, b) => a.next_attempt_at! - b.next_attempt_at!)
+      .slice(0, limit)
+      .map(r => ({ ...r }));
+  }
+}
+
+/**
+ * Use the conversation store's libSQL database when there is one, else memory.
+ */
+export function createDeliveryStore(): DeliveryStore {
+  return conversationStore instanceof TursoClient
+    ? new LibsqlDeliveryStore(conversationStore.client)
+    : new InMemoryDeliveryStore();
+}
+
+export const deliveryStore: DeliveryStore = createDeliveryStore();
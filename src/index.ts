@@ -5,17 +5,34 @@
  */
 
 import express from 'express';
+import { waitUntil } from '@vercel/functions';
 import type { Event } from './models/Event.js';
 import { CONFIG } from './utils/config.js';
 import { AgentFactory } from './agents/factory/index.js';
 import { Orchestrator } from './orchestrator/index.js';
 import { client as mongoClient } from './clients/mongodb.js';
+import { conversationStore } from './clients/conversationStore.js';
 import agentsRouter from "./agents/index.js";
+import { agentConfigStore } from './agents/store.js';
+import sessionsRouter from "./sessions/index.js";
+import deliveriesRouter from "./delivery/index.js";
+import cacheRouter from "./cache/index.js";
+import apiKeysRouter from "./auth/index.js";
+import usageRouter from "./usage/index.js";
+import { requestPrincipal, requireScope } from './auth/middleware.js';
+import { apiKeyStore, canUseAgent } from './auth/store.js';
+import { parseMessage } from './utils/messageParser.js';
+import { RateLimitError, rateLimiter, recordRejection } from './limits/tokenBucket.js';
+import { deliveryService } from './delivery/service.js';
+import { jobStore } from './jobs/store.js';
+import { EventQueue, toJobView } from './jobs/queue.js';
+import { eventDeduplicator } from './dedupe/index.js';
+import type { HandleEventOptions } from './orchestrator/index.js';
+import { checkSchema } from './orchestrator/structuredOutput.js';
 // Imports the OpenTelemetry setup and the SpanStatusCode constants
 import { setupOpenTelemetry, SpanStatusCode } from './utils/openTelemetry.js';
+import { startEventStream, writeServerSentEvent } from './utils/sse.js';
 
-/** Checks if the application is running in a Vercel environment. */
-const IS_VERCEL = process.env.VERCEL === '1';
 const app = express();
 
 /**
@@ -30,39 +47,6 @@ console.log(`Tracer: ${tracer}`);
 app.use(express.json({ limit: "5mb" }));
 app.use(express.urlencoded({ limit: "5mb", extended: true }));
 
-/**
- * Express middleware to validate the 'x-api-key' or 'Authorization: Bearer' header.
- * The check is bypassed if the environment is not Vercel.
- *
- * @param {express.Request} req - The Express request object.
- * @param {express.Response} res - The Express response object.
- * @param {express.NextFunction} next - The next middleware function.
- * @returns {void | express.Response} Calls next() on success or sends 401 on failure.
- */
-function requireApiKey(req: express.Request, res: express.Response, next: express.NextFunction) {
-  if (!IS_VERCEL) {
-    console.log("Bypassing API Key check as it is not Vercel.");
-    return next();
-  }
-
-  let apiKey = Array.isArray(req.headers['x-api-key'])
-    ? req.headers['x-api-key'][0]
-    : req.headers['x-api-key'];
-
-  if (!apiKey) {
-    const authHeader = Array.isArray(req.headers['authorization'])
-      ? req.headers['authorization'][0]
-      : req.headers['authorization'];
-    if (authHeader?.startsWith('Bearer ')) apiKey = authHeader.substring(7);
-  }
-
-  if (apiKey !== CONFIG.API_KEY) {
-    return res.status(401).json({ ok: false, error: 'Unauthorized: invalid API key' });
-  }
-
-  next();
-}
-
 /**
  * Health check endpoint.
  * @route GET /
@@ -77,7 +61,30 @@ app.get('/_health', (_req, res) => res.status(200).send('💻 royzheng-agents ru
 
 // Initialize core services
 const agentFactory = new AgentFactory();
-const orchestrator = new Orchestrator(agentFactory);
+const orchestrator = new Orchestrator(agentFactory, conversationStore);
+
+/**
+ * Runs a claimed event through the Orchestrator, caching its Response for duplicates
+ * on success and releasing the claim on failure so a retry can run again.
+ *
+ * @param {Event} event - The claimed event.
+ * @param {string | null} claimToken - Token of the event's dedupe claim; null for jobs queued without one.
+ * @param {HandleEventOptions} options - Passed through to the Orchestrator.
+ * @returns The Orchestrator's Response, if any.
+ */
+async function processEvent(event: Event, claimToken: string | null, options: HandleEventOptions = {}) {
+  try {
+    const response = await orchestrator.handleEvent(event, options);
+    if (claimToken) await eventDeduplicator.complete(event, claimToken, response);
+    return response;
+  } catch (err) {
+    if (claimToken) await eventDeduplicator.release(event, claimToken).catch(releaseErr =>
+      console.error(`❌ Failed to release dedupe claim for event ${event.id}:`, releaseErr));
+    throw err;
+  }
+}
+
+const eventQueue = new EventQueue(jobStore, (event, claimToken) => processEvent(event, claimToken), CONFIG.EVENT_WORKERS);
 
 /**
  * Validates the structure and content of an incoming Event payload.
@@ -98,16 +105,93 @@ function validateEvent(event: Event): string | null {
     }
   }
 
+  const agentVersion = event.metadata?.agent_version;
+  if (agentVersion != null && !(Number.isInteger(agentVersion) && agentVersion > 0)) {
+    return 'Invalid metadata: agent_version must be a positive integer';
+  }
+
+  const approval = event.metadata?.approval;
+  if (approval != null && (typeof approval.id !== 'string' || !['approve', 'deny'].includes(approval.decision))) {
+    return 'Invalid metadata: approval must have an id and a decision of "approve" or "deny"';
+  }
+
+  if (event.metadata?.response_format != null) {
+    const schemaError = checkSchema(event.metadata.response_format.schema);
+    if (schemaError) return `Invalid metadata: ${schemaError}`;
+  }
+
   return null;
 }
 
+/**
+ * Answers a request refused by a rate limit or quota with 429 and `Retry-After` in seconds.
+ *
+ * @param {express.Response} res - The response to send.
+ * @param {RateLimitError} err - The limit that was exceeded.
+ */
+function sendRateLimited(res: express.Response, err: RateLimitError) {
+  res.setHeader('Retry-After', String(Math.max(1, Math.ceil(err.retryAfterMs / 1000))));
+  return res.status(429).json({ ok: false, error: err.message, limit: err.limit, retry_after_ms: err.retryAfterMs });
+}
+
+/**
+ * The agents an event may reach: its own and any chosen with an `[a:]` tag.
+ *
+ * @param {Event} event - A validated event.
+ * @returns {string[]} The agent ids.
+ */
+function eventAgentIds(event: Event): string[] {
+  const overrides = event.messages
+    .filter(m => m.type === 'text' && m.text)
+    .map(m => parseMessage(m.text!).agent_idOverride)
+    .filter((agentId): agentId is string => !!agentId);
+  return [...new Set([event.agent_id, ...overrides])];
+}
+
+/**
+ * Checks whether the caller asked for a server-sent-events response.
+ *
+ * @param {express.Request} req - The Express request object.
+ * @returns {boolean} True if the Accept header includes text/event-stream.
+ */
+function wantsEventStream(req: express.Request): boolean {
+  return (req.headers['accept'] || '').includes('text/event-stream');
+}
+
+/**
+ * Decides whether an event is queued instead of handled within the request.
+ * `?mode=async|sync` wins, then a `Prefer: respond-async` header. Otherwise events
+ * with recipients are queued, since their reply is delivered to the integration anyway.
+ *
+ * @param {express.Request} req - The Express request object.
+ * @param {Event} event - The validated event.
+ * @returns {boolean} True if the event should be processed asynchronously.
+ */
+function wantsAsync(req: express.Request, event: Event): boolean {
+  const mode = req.query.mode?.toString();
+  if (mode === 'async') return true;
+  if (mode === 'sync') return false;
+  if ((req.headers['prefer'] || '').includes('respond-async')) return true;
+  return !!event.recipients?.length;
+}
+
 /**
  * Main API endpoint for processing incoming platform events.
  * It enforces API key validation and wraps the event processing logic in an OpenTelemetry span.
  *
+ * Asynchronous events (see wantsAsync) are queued and answered with `202` and a job id
+ * to poll at `GET /api/events/:id`.
+ *
+ * Repeated events (same id, or same Telegram chat and message) are not processed again:
+ * completed ones get the cached Response, ones still in flight get `409`.
+ *
+ * Callers without recipients (e.g. the watch app) may send `Accept: text/event-stream`
+ * to receive `delta` events as the reply is generated, followed by a `done` event
+ * carrying the final Response (or an `error` event).
+ *
  * @route POST /api/events
  */
-app.post('/api/events', requireApiKey, async (req, res) => {
+app.post('/api/events', requireScope('events:write'), async (req, res) => {
   const event: Event = req.body;
 
   // Start a new span for tracing the entire HTTP request handling process.
@@ -118,6 +202,8 @@ app.post('/api/events', requireApiKey, async (req, res) => {
       // Add relevant attributes to the current span for better tracing context.
       span.setAttribute('event.id', event.id);
       span.setAttribute('event.source', event.sender?.source || 'unknown');
+      const principal = requestPrincipal(res);
+      if (principal) span.setAttribute('auth.key_name', principal.name);
       console.log(span);
       if (validationError) {
         // Record validation error on the span and set span status to ERROR.
@@ -128,13 +214,81 @@ app.post('/api/events', requireApiKey, async (req, res) => {
         return res.status(400).json({ ok: false, error: validationError });
       }
 
+      const forbiddenAgent = principal && eventAgentIds(event).find(agentId => !canUseAgent(principal, agentId));
+      if (forbiddenAgent) {
+        const error = `Forbidden: API key may not send events to agent ${forbiddenAgent}`;
+        console.warn(`🚫 API key "${principal.name}" may not send events to agent ${forbiddenAgent}`);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: error });
+        span.end();
+        return res.status(403).json({ ok: false, error });
+      }
+
+      if (principal && CONFIG.RATE_LIMIT_API_KEY_PER_MINUTE > 0) {
+        const { allowed, retryAfterMs } = rateLimiter.take(`api_key:${principal.id}`, { per_minute: CONFIG.RATE_LIMIT_API_KEY_PER_MINUTE });
+        if (!allowed) {
+          recordRejection('api_key_rate');
+          console.warn(`🐢 API key "${principal.name}" is over its rate limit`);
+          span.setAttribute('event.rate_limit', 'api_key_rate');
+          span.end();
+          return sendRateLimited(res, new RateLimitError('Too many requests for this API key', 'api_key_rate', retryAfterMs));
+        }
+      }
+
+      const claim = await eventDeduplicator.claim(event);
+      if (claim.status !== 'claimed') {
+        span.setAttribute('event.duplicate_status', claim.status);
+        span.end();
+        if (claim.status === 'in_flight') {
+          return res.status(409).json({ ok: false, error: `Event is already being processed as ${claim.event_id}` });
+        }
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(200).json(claim.response || { ok: true });
+      }
+
+      if (!wantsEventStream(req) && wantsAsync(req, event)) {
+        const { job, done } = await eventQueue.enqueue(event, claim.token).catch(async (err) => {
+          await eventDeduplicator.release(event, claim.token);
+          throw err;
+        });
+        // Keeps the serverless function alive until the job finishes; a no-op elsewhere.
+        waitUntil(done);
+
+        span.setAttribute('event.async', true);
+        span.setAttribute('job.id', job.id);
+        span.end();
+        res.setHeader('Location', `/api/events/${job.id}`);
+        return res.status(202).json({ ok: true, job_id: job.id, status: job.status });
+      }
+
+      if (wantsEventStream(req) && !event.recipients?.length) {
+        span.setAttribute('event.stream', true);
+        startEventStream(res);
+        try {
+          const response = await processEvent(event, claim.token, {
+            onDelta: (delta) => writeServerSentEvent(res, 'delta', delta),
+          });
+          writeServerSentEvent(res, 'done', response || { ok: true });
+        } catch (err: any) {
+          span.recordException(err);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: err.message });
+          writeServerSentEvent(res, 'error', { ok: false, error: err.message });
+        }
+        span.end();
+        return res.end();
+      }
+
       // Delegate event processing to the Orchestrator.
-      const response = await orchestrator.handleEvent(event);
+      const response = await processEvent(event, claim.token);
 
       // End the span upon successful completion.
       span.end();
       return res.status(200).json(response || { ok: true });
     } catch (err: any) {
+      if (err instanceof RateLimitError) {
+        span.setAttribute('event.rate_limit', err.limit);
+        span.end();
+        return sendRateLimited(res, err);
+      }
       // Catch and record any internal errors on the span.
       span.recordException(err);
       span.setStatus({ code: SpanStatusCode.ERROR, message: err.message });
@@ -144,15 +298,60 @@ app.post('/api/events', requireApiKey, async (req, res) => {
   });
 });
 
+/**
+ * Status of a queued event: `queued`, `running`, `completed` (with the final Response)
+ * or `failed` (with the error). Accepts a job id or an event id.
+ * @route GET /api/events/:id
+ */
+app.get('/api/events/:id', requireScope('events:read'), async (req, res) => {
+  try {
+    const job = (await jobStore.get(req.params.id)) ?? (await jobStore.getByEventId(req.params.id));
+    if (!job) return res.status(404).json({ ok: false, error: 'Job not found' });
+    return res.status(200).json({ ok: true, job: toJobView(job) });
+  } catch (err: any) {
+    return res.status(500).json({ ok: false, error: err.message });
+  }
+});
 
 /**
- * Routes for agent-specific endpoints. They are protected by the API key middleware.
+ * Routes for agent-specific endpoints. They require the `agents:admin` scope.
  * @route /api/agents
  */
-app.use("/api/agents", requireApiKey, agentsRouter);
+app.use("/api/agents", requireScope('agents:admin'), agentsRouter);
+
+/**
+ * Routes to list, inspect, close and delete conversation sessions. They require the `sessions:admin` scope.
+ * @route /api/sessions
+ */
+app.use("/api/sessions", requireScope('sessions:admin'), sessionsRouter);
+
+/**
+ * Routes to inspect outbound deliveries and replay failed ones. They require the `deliveries:admin` scope.
+ * @route /api/deliveries
+ */
+app.use("/api/deliveries", requireScope('deliveries:admin'), deliveriesRouter);
 
 /**
- * Handles the application startup sequence: connecting to MongoDB and starting the Express server.
+ * Routes to inspect and flush the in-process caches. They require the `cache:admin` scope.
+ * @route /api/admin/cache
+ */
+app.use("/api/admin/cache", requireScope('cache:admin'), cacheRouter);
+
+/**
+ * Routes to list, create and revoke API keys. They require the `keys:admin` scope.
+ * @route /api/admin/keys
+ */
+app.use("/api/admin/keys", requireScope('keys:admin'), apiKeysRouter);
+
+/**
+ * Routes reporting token usage, LLM turns, tool calls and estimated cost. They require the `usage:read` scope.
+ * @route /api/usage
+ */
+app.use("/api/usage", requireScope('usage:read'), usageRouter);
+
+/**
+ * Handles the application startup sequence: connecting to MongoDB, starting the Express server,
+ * the background delivery retries and resuming unfinished event jobs.
  *
  * @async
  * @returns {Promise<void>}
@@ -162,11 +361,25 @@ async function startServer() {
     await mongoClient.connect();
     console.log('Connected to MongoDB Atlas');
 
+    // Duplicate agent_ids already in the collection make this fail; the server still starts.
+    await agentConfigStore.ensureIndexes().catch(err =>
+      console.error('❌ Failed to create agent config indexes:', err));
+    await apiKeyStore.ensureIndexes().catch(err =>
+      console.error('❌ Failed to create API key indexes:', err));
+
+    if (CONFIG.AUTH_DISABLED) console.warn('⚠️ AUTH_DISABLED is set: API requests are not authenticated');
+
     // Only start the local listener if not running on Vercel (or a similar serverless platform).
     if (!CONFIG.IS_VERCEL) {
       app.listen(CONFIG.PORT, () => {
         console.log(`💻 Local server running at http://localhost:${CONFIG.PORT}`);
       });
+
+      // Serverless deployments retry failed deliveries via POST /api/deliveries/sweep instead.
+      deliveryService.start();
+
+      // Resume queued events a previous process did not finish.
+      await eventQueue.recover();
     }
   } catch (err) {
     console.error('❌ Failed to start server:', err);
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Event } from '../models/Event.js';
+import { describeStores } from '../testing/stores.js';
+import { EventQueue } from './queue.js';
+import { InMemoryJobStore, LibsqlJobStore } from './store.js';
+import type { JobRecord, JobStore } from './store.js';
+
+function event(id: string): Event {
+  return { id, agent_id: 'a1', timestamp: new Date().toISOString(), messages: [{ type: 'text', text: 'hi' }], metadata: {} };
+}
+
+/** A job another process left behind, leased until `lockedUntil`. */
+function orphan(id: string, lockedUntil: number | null, changes: Partial<JobRecord> = {}): JobRecord {
+  const now = Date.now();
+  return {
+    id, event_id: `e-${id}`, status: 'running', event: JSON.stringify(event(`e-${id}`)), claim_token: null,
+    locked_by: lockedUntil == null ? null : 'gone:1', locked_until: lockedUntil,
+    response: null, error: null, attempts: 1, created_at: now, updated_at: now, started_at: now, completed_at: null,
+    ...changes,
+  };
+}
+
+describeStores<JobStore>(InMemoryJobStore, LibsqlJobStore, (createStore) => {
+  test('recover leaves jobs another live queue holds', async () => {
+    const store = createStore();
+    let finish!: () => void;
+    const busy = new EventQueue(store, () => new Promise(resolve => { finish = () => resolve({ ok: true }); }), 1);
+    const { job, done } = await busy.enqueue(event('e1'));
+    await busy.enqueue(event('e2'));
+
+    let handled = 0;
+    const starting = new EventQueue(store, async () => { handled++; }, 1);
+    assert.equal(await starting.recover(), 0);
+    assert.equal(handled, 0);
+
+    finish();
+    await done;
+    assert.equal((await store.get(job.id))?.status, 'completed');
+    finish();
+  });
+
+  test('recover takes over jobs whose lease expired, once', async () => {
+    const store = createStore();
+    await store.insert(orphan('expired', Date.now() - 1));
+    await store.insert(orphan('legacy', null));
+    await store.insert(orphan('live', Date.now() + 60_000));
+
+    const handled: string[] = [];
+    const handler = async (e: Event) => { handled.push(e.id); };
+    const a = new EventQueue(store, handler, 2);
+    const b = new EventQueue(store, handler, 2);
+    const [resumedA, resumedB] = await Promise.all([a.recover(), b.recover()]);
+    assert.equal(resumedA + resumedB, 2);
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    assert.deepEqual(handled.sort(), ['e-expired', 'e-legacy']);
+    assert.equal((await store.get('live'))?.status, 'running');
+  });
+
+  test('a job out of attempts is failed instead of resumed', async () => {
+    const store = createStore();
+    await store.insert(orphan('tired', Date.now() - 1, { attempts: 2 }));
+
+    assert.equal(await new EventQueue(store, async () => {}, 1).recover(), 0);
+    assert.equal((await store.get('tired'))?.status, 'failed');
+  });
+});
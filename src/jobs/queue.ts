@@ -0,0 +1,212 @@
+import { hostname } from 'node:os';
+import { v4 as uuidv4 } from 'uuid';
+import { trace, SpanStatusCode, Tracer } from '@opentelemetry/api';
+import type { Event } from '../models/Event.js';
+import type { JobRecord, JobStore } from './store.js';
+
+const tracer: Tracer = trace.getTracer('agents-service', '1.0.0');
+
+/** A job found `running` after a restart is retried this many times in total. */
+const MAX_JOB_ATTEMPTS = 2;
+const RECOVERY_BATCH_SIZE = 100;
+/** How long a job stays leased to its instance without a heartbeat. */
+const JOB_LEASE_MS = 60_000;
+const LEASE_HEARTBEAT_MS = JOB_LEASE_MS / 3;
+
+export type EventHandler = (event: Event, claimToken: string | null) => Promise<unknown>;
+
+/**
+ * Job status as returned by `GET /api/events/:id`.
+ */
+export interface JobView {
+  id: string;
+  event_id: string;
+  status: JobRecord['status'];
+  response: unknown;
+  error: string | null;
+  attempts: number;
+  created_at: number;
+  started_at: number | null;
+  completed_at: number | null;
+}
+
+export function toJobView(job: JobRecord): JobView {
+  return {
+    id: job.id,
+    event_id: job.event_id,
+    status: job.status,
+    response: job.response ? JSON.parse(job.response) : null,
+    error: job.error,
+    attempts: job.attempts,
+    created_at: job.created_at,
+    started_at: job.started_at,
+    completed_at: job.completed_at,
+  };
+}
+
+/**
+ * In-process queue of events waiting for the orchestrator.
+ *
+ * Jobs are persisted before they are queued, so their status can be polled
+ * from any instance. Each job is leased to the queue holding it, which renews
+ * the lease while the job waits or runs; `recover()` only takes over jobs whose
+ * lease expired, i.e. jobs of a process that stopped. At most `concurrency`
+ * events are handled at once.
+ */
+export class EventQueue {
+  private pending: Array<{ job: JobRecord; resolve: () => void }> = [];
+  private running = 0;
+  /** Identifies this queue in job leases. */
+  private readonly owner = `${hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+  /** Jobs leased to this queue that have not finished yet. */
+  private held = new Set<string>();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private store: JobStore,
+    private handler: EventHandler,
+    private concurrency: number = 2,
+  ) {}
+
+  /**
+   * Persist a job for the event and schedule it. `done` settles when the job
+   * finishes, successfully or not; it never rejects. `claimToken` is the event's
+   * dedupe claim, passed on to the handler.
+   */
+  public async enqueue(event: Event, claimToken: string | null = null): Promise<{ job: JobRecord; done: Promise<void> }> {
+    const now = Date.now();
+    const job: JobRecord = {
+      id: uuidv4(),
+      event_id: event.id,
+      status: 'queued',
+      event: JSON.stringify(event),
+      claim_token: claimToken,
+      locked_by: this.owner,
+      locked_until: now + JOB_LEASE_MS,
+      response: null,
+      error: null,
+      attempts: 0,
+      created_at: now,
+      updated_at: now,
+      started_at: null,
+      completed_at: null,
+    };
+    await this.store.insert(job);
+    console.log(`📥 Queued event ${event.id} as job ${job.id}`);
+    return { job, done: this.schedule(job) };
+  }
+
+  /**
+   * Re-queue jobs left `queued` or `running` by a process that stopped, i.e.
+   * whose lease expired. Jobs that already used up their attempts are marked
+   * failed instead. Jobs another live instance holds are left alone.
+   */
+  public async recover(): Promise<number> {
+    const now = Date.now();
+    const expired = await this.store.listRecoverable(now, RECOVERY_BATCH_SIZE);
+    let resumed = 0;
+    for (const candidate of expired) {
+      // Another instance may be recovering the same job
+      const job = await this.store.claim(candidate.id, this.owner, now + JOB_LEASE_MS, now);
+      if (!job) continue;
+      if (job.attempts >= MAX_JOB_ATTEMPTS) {
+        await this.store.update(job.id, {
+          status: 'failed',
+          error: 'Interrupted by a restart too many times',
+          updated_at: Date.now(),
+          completed_at: Date.now(),
+        });
+        continue;
+      }
+      void this.schedule(job);
+      resumed++;
+    }
+    if (resumed) console.log(`📥 Resumed ${resumed} unfinished event job(s)`);
+    return resumed;
+  }
+
+  private schedule(job: JobRecord): Promise<void> {
+    this.hold(job.id);
+    return new Promise<void>(resolve => {
+      this.pending.push({ job, resolve });
+      this.drain();
+    });
+  }
+
+  private hold(id: string): void {
+    this.held.add(id);
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      this.store.renewLeases(this.owner, Date.now() + JOB_LEASE_MS)
+        .catch(err => console.error(`❌ Failed to renew job leases for ${this.owner}:`, err));
+    }, LEASE_HEARTBEAT_MS);
+    // Never keeps the process alive on its own
+    this.heartbeat.unref?.();
+  }
+
+  private unhold(id: string): void {
+    this.held.delete(id);
+    if (this.held.size > 0 || !this.heartbeat) return;
+    clearInterval(this.heartbeat);
+    this.heartbeat = null;
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const { job, resolve } = this.pending.shift()!;
+      this.running++;
+      this.run(job)
+        .catch(err => console.error(`❌ Failed to update job ${job.id}:`, err))
+        .finally(() => {
+          this.running--;
+          this.unhold(job.id);
+          resolve();
+          this.drain();
+        });
+    }
+  }
+
+  private async run(job: JobRecord): Promise<void> {
+    const event: Event = JSON.parse(job.event);
+
+    await tracer.startActiveSpan('EventQueue.process', {
+      attributes: { 'job.id': job.id, 'event.id': job.event_id, 'job.attempt': job.attempts + 1 },
+    }, async (span) => {
+      try {
+        const startedAt = Date.now();
+        await this.store.update(job.id, {
+          status: 'running',
+          attempts: job.attempts + 1,
+          started_at: startedAt,
+          updated_at: startedAt,
+        });
+
+        try {
+          const response = await this.handler(event, job.claim_token);
+          const completedAt = Date.now();
+          await this.store.update(job.id, {
+            status: 'completed',
+            response: JSON.stringify(response ?? { ok: true }),
+            error: null,
+            updated_at: completedAt,
+            completed_at: completedAt,
+          });
+          span.setStatus({ code: SpanStatusCode.OK });
+        } catch (err) {
+          console.error(`❌ Job ${job.id} for event ${job.event_id} failed:`, err);
+          const completedAt = Date.now();
+          await this.store.update(job.id, {
+            status: 'failed',
+            error: (err as Error).message,
+            updated_at: completedAt,
+            completed_at: completedAt,
+          });
+          span.recordException(err as Error);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: (err as Error).message });
+        }
+      } finally {
+        span.end();
+      }
+    });
+  }
+}
@@ -0,0 +1,265 @@
+import type { Client, Row } from '@libsql/client';
+import { runMigrations, Migration } from '../utils/migrations.js';
+import { updateByIdStatement } from '../utils/sql.js';
+import { conversationStore } from '../clients/conversationStore.js';
+import { TursoClient } from '../clients/turso.js';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * One queued run of `Orchestrator.handleEvent`. `event` and `response` are
+ * JSON strings. Timestamps are unix milliseconds.
+ *
+ * An unfinished job is leased to the instance handling it (`locked_by`) until
+ * `locked_until`; the instance keeps extending the lease while it holds the job,
+ * so only jobs of instances that stopped can be taken over.
+ */
+export interface JobRecord {
+  id: string;
+  event_id: string;
+  status: JobStatus;
+  event: string;
+  /** Dedupe claim held for the event, handed to the handler so the run can complete or release it. */
+  claim_token: string | null;
+  locked_by: string | null;
+  locked_until: number | null;
+  response: string | null;
+  error: string | null;
+  attempts: number;
+  created_at: number;
+  updated_at: number;
+  started_at: number | null;
+  completed_at: number | null;
+}
+
+export interface JobStore {
+  insert(job: JobRecord): Promise<void>;
+  update(id: string, changes: Partial<Omit<JobRecord, 'id'>>): Promise<void>;
+  get(id: string): Promise<JobRecord | null>;
+  /** Most recent job for an event id. */
+  getByEventId(eventId: string): Promise<JobRecord | null>;
+  /** Queued or running jobs whose lease expired by `now`, oldest first; used to resume after a restart. */
+  listRecoverable(now: number, limit: number): Promise<JobRecord[]>;
+  /**
+   * Lease an unfinished job to `owner` until `lockedUntil`, unless another lease is
+   * still live at `now`. Returns the leased job, or null if it was not available.
+   */
+  claim(id: string, owner: string, lockedUntil: number, now: number): Promise<JobRecord | null>;
+  /** Extend every lease `owner` holds on unfinished jobs. */
+  renewLeases(owner: string, lockedUntil: number): Promise<void>;
+}
+
+const JOB_MIGRATIONS: Migration[] = [
+  {
+    id: 'event_jobs_001_create',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS event_jobs (
+        id TEXT PRIMARY KEY,
+        event_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        event TEXT NOT NULL,
+        response TEXT,
+        error TEXT,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        started_at INTEGER,
+        completed_at INTEGER
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_event_jobs_event ON event_jobs (event_id, created_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_event_jobs_status ON event_jobs (status, created_at)`,
+    ],
+  },
+  {
+    id: 'event_jobs_002_claim_token',
+    statements: [
+      `ALTER TABLE event_jobs ADD COLUMN claim_token TEXT`,
+    ],
+  },
+  {
+    id: 'event_jobs_003_lease',
+    statements: [
+      `ALTER TABLE event_jobs ADD COLUMN locked_by TEXT`,
+      `ALTER TABLE event_jobs ADD COLUMN locked_until INTEGER`,
+    ],
+  },
+];
+
+function toJobRecord(row: Row): JobRecord {
+  return {
+    id: String(row.id),
+    event_id: String(row.event_id),
+    status: String(row.status) as JobStatus,
+    event: String(row.event),
+    claim_token: row.claim_token != null ? String(row.claim_token) : null,
+    locked_by: row.locked_by != null ? String(row.locked_by) : null,
+    locked_until: row.locked_until != null ? Number(row.locked_until) : null,
+    response: row.response != null ? String(row.response) : null,
+    error: row.error != null ? String(row.error) : null,
+    attempts: Number(row.attempts),
+    created_at: Number(row.created_at),
+    updated_at: Number(row.updated_at),
+    started_at: row.started_at != null ? Number(row.started_at) : null,
+    completed_at: row.completed_at != null ? Number(row.completed_at) : null,
+  };
+}
+
+/**
+ * Job table persisted in the same libSQL database as conversation history.
+ */
+export class LibsqlJobStore implements JobStore {
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(private db: Client) {}
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = runMigrations(this.db, JOB_MIGRATIONS)
+        .then(() => undefined)
+        .catch((err) => {
+          this.schemaReady = null;
+          throw err;
+        });
+    }
+    return this.schemaReady;
+  }
+
+  public async insert(job: JobRecord): Promise<void> {
+    await this.ensureSchema();
+    await this.db.execute({
+      sql: `
+        INSERT INTO event_jobs (
+          id, event_id, status, event, claim_token, locked_by, locked_until, response, error, attempts,
+          created_at, updated_at, started_at, completed_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      args: [
+        job.id, job.event_id, job.status, job.event, job.claim_token, job.locked_by, job.locked_until,
+        job.response, job.error, job.attempts,
+        job.created_at, job.updated_at, job.started_at, job.completed_at,
+      ],
+    });
+  }
+
+  public async update(id: string, changes: Partial<Omit<JobRecord, 'id'>>): Promise<void> {
+    await this.ensureSchema();
+    const statement = updateByIdStatement('event_jobs', id, changes);
+    if (statement) await this.db.execute(statement);
+  }
+
+  public async get(id: string): Promise<JobRecord | null> {
+    await this.ensureSchema();
+    const res = await this.db.execute({ sql: 'SELECT * FROM event_jobs WHERE id = ?', args: [id] });
+    return res.rows[0] ? toJobRecord(res.rows[0]) : null;
+  }
+
+  public async getByEventId(eventId: string): Promise<JobRecord | null> {
+    await this.ensureSchema();
+    const res = await this.db.execute({
+      sql: 'SELECT * FROM event_jobs WHERE event_id = ? ORDER BY created_at DESC, rowid DESC LIMIT 1',
+      args: [eventId],
+    });
+    return res.rows[0] ? toJobRecord(res.rows[0]) : null;
+  }
+
+  public async listRecoverable(now: number, limit: number): Promise<JobRecord[]> {
+    await this.ensureSchema();
+    const res = await this.db.execute({
+      sql: `
+        SELECT * FROM event_jobs
+        WHERE status IN ('queued', 'running') AND (locked_until IS NULL OR locked_until <= ?)
+        ORDER BY created_at ASC, rowid ASC LIMIT ?
+      `,
+      args: [now, limit],
+    });
+    return res.rows.map(toJobRecord);
+  }
+
+  public async claim(id: string, owner: string, lockedUntil: number, now: number): Promise<JobRecord | null> {
+    await this.ensureSchema();
+    const res = await this.db.execute({
+      sql: `
+        UPDATE event_jobs SET locked_by = ?, locked_until = ?, updated_at = ?
+        WHERE id = ? AND status IN ('queued', 'running') AND (locked_until IS NULL OR locked_until <= ?)
+        RETURNING *
+      `,
+      args: [owner, lockedUntil, now, id, now],
+    });
+    return res.rows[0] ? toJobRecord(res.rows[0]) : null;
+  }
+
+  public async renewLeases(owner: string, lockedUntil: number): Promise<void> {
+    await this.ensureSchema();
+    await this.db.execute({
+      sql: `UPDATE event_jobs SET locked_until = ? WHERE locked_by = ? AND status IN ('queued', 'running')`,
+      args: [lockedUntil, owner],
+    });
+  }
+}
+
+function isUnfinished(job: JobRecord): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+/**
+ * Process-local job table for offline development and tests.
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, JobRecord>();
+
+  public async insert(job: JobRecord): Promise<void> {
+    if (this.jobs.has(job.id)) throw new Error(`Job ${job.id} already exists`);
+    this.jobs.set(job.id, { ...job });
+  }
+
+  public async update(id: string, changes: Partial<Omit<JobRecord, 'id'>>): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) Object.assign(job, changes);
+  }
+
+  public async get(id: string): Promise<JobRecord | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  public async getByEventId(eventId: string): Promise<JobRecord | null> {
+    // Later insertions win created_at ties
+    let latest: JobRecord | undefined;
+    for (const job of this.jobs.values()) {
+      if (job.event_id === eventId && (!latest || job.created_at >= latest.created_at)) latest = job;
+    }
+    return latest ? { ...latest } : null;
+  }
+
+  public async listRecoverable(now: number, limit: number): Promise<JobRecord[]> {
+    return [...this.jobs.values()]
+      .filter(j => isUnfinished(j) && (j.locked_until == null || j.locked_until <= now))
+      .sort((a, b) => a.created_at - b.created_at)
+      .slice(0, limit)
+      .map(j => ({ ...j }));
+  }
+
+  public async claim(id: string, owner: string, lockedUntil: number, now: number): Promise<JobRecord | null> {
+    const job = this.jobs.get(id);
+    if (!job || !isUnfinished(job) || (job.locked_until != null && job.locked_until > now)) return null;
+    Object.assign(job, { locked_by: owner, locked_until: lockedUntil, updated_at: now });
+    return { ...job };
+  }
+
+  public async renewLeases(owner: string, lockedUntil: number): Promise<void> {
+    for (const job of this.jobs.values()) {
+      if (job.locked_by === owner && isUnfinished(job)) job.locked_until = lockedUntil;
+    }
+  }
+}
+
+/**
+ * Use the conversation store's libSQL database when there is one, else memory.
+ */
+export function createJobStore(): JobStore {
+  return conversationStore instanceof TursoClient
+    ? new LibsqlJobStore(conversationStore.client)
+    : new InMemoryJobStore();
+}
+
+export const jobStore: JobStore = createJobStore();
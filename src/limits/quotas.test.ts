@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemoryConversationStore } from '../clients/memoryStore.js';
+import { checkEventLimits } from './quotas.js';
+import { TokenBucketLimiter } from './tokenBucket.js';
+
+test('an event the agent limit refuses does not use up the user limit', async () => {
+  const limiter = new TokenBucketLimiter();
+  const store = new InMemoryConversationStore();
+  const config = { user: { per_minute: 1 }, agent: { per_minute: 1 } };
+
+  assert.deepEqual(await checkEventLimits({ agent_id: 'a1', user_id: 'u1', config }, store, limiter), { allowed: true });
+  const refused = await checkEventLimits({ agent_id: 'a1', user_id: 'u2', config }, store, limiter);
+  assert.equal(refused.allowed === false && refused.limit, 'agent_rate');
+
+  // u2 was refused by the agent limit, so their own bucket is still full
+  assert.equal(limiter.take('user:a1:u2', config.user).allowed, true);
+});
@@ -0,0 +1,85 @@
+import type { ConversationStore } from '../clients/conversationStore.js';
+import { CONFIG } from '../utils/config.js';
+import { rateLimiter } from './tokenBucket.js';
+import type { BucketLimit, TokenBucketLimiter } from './tokenBucket.js';
+
+/**
+ * Rate limits and daily token quotas for an agent (`AgentConfig.rate_limits`).
+ * Unset fields fall back to the service defaults; a limit of 0 turns it off.
+ */
+export interface RateLimitConfig {
+  /** Events per `sender.user_id` on this agent. Defaults to `RATE_LIMIT_USER_PER_MINUTE`. */
+  user?: BucketLimit;
+  /** Events for this agent across all users. Unlimited by default. */
+  agent?: BucketLimit;
+  /** Tokens a user may use on this agent per UTC day. */
+  user_daily_tokens?: number;
+  /** Tokens the agent may use per UTC day across all users. */
+  agent_daily_tokens?: number;
+  /** Reply sent to limited senders instead of the default message. */
+  exceeded_message?: string;
+}
+
+export type LimitName = 'user_rate' | 'agent_rate' | 'user_daily_tokens' | 'agent_daily_tokens';
+
+export type LimitDecision =
+  | { allowed: true }
+  | { allowed: false; limit: LimitName; reason: 'rate_limited' | 'quota_exceeded'; retryAfterMs: number };
+
+export interface LimitRequest {
+  agent_id: string;
+  user_id?: string;
+  config?: RateLimitConfig;
+}
+
+function startOfUtcDay(now: number): number {
+  const day = new Date(now);
+  day.setUTCHours(0, 0, 0, 0);
+  return day.getTime();
+}
+
+/**
+ * Decide whether an event may run. Quotas are checked first, against the
+ * `total_tokens` already logged today, so a refused event takes nothing from
+ * the rate-limit buckets; an event the agent bucket refuses gets its user
+ * token back.
+ */
+export async function checkEventLimits(
+  { agent_id, user_id, config = {} }: LimitRequest,
+  store: ConversationStore,
+  limiter: TokenBucketLimiter = rateLimiter
+): Promise<LimitDecision> {
+  const now = Date.now();
+  const dayStart = startOfUtcDay(now);
+  const untilTomorrow = dayStart + 86_400_000 - now;
+
+  if (user_id && config.user_daily_tokens) {
+    const used = await store.getTokenUsage({ agent_id, user_id, since: Math.floor(dayStart / 1000) });
+    if (used >= config.user_daily_tokens) {
+      return { allowed: false, limit: 'user_daily_tokens', reason: 'quota_exceeded', retryAfterMs: untilTomorrow };
+    }
+  }
+  if (config.agent_daily_tokens) {
+    const used = await store.getTokenUsage({ agent_id, since: Math.floor(dayStart / 1000) });
+    if (used >= config.agent_daily_tokens) {
+      return { allowed: false, limit: 'agent_daily_tokens', reason: 'quota_exceeded', retryAfterMs: untilTomorrow };
+    }
+  }
+
+  const userLimit = config.user ?? { per_minute: CONFIG.RATE_LIMIT_USER_PER_MINUTE };
+  const userKey = user_id && userLimit.per_minute > 0 ? `user:${agent_id}:${user_id}` : null;
+  if (userKey) {
+    const { allowed, retryAfterMs } = limiter.take(userKey, userLimit);
+    if (!allowed) return { allowed: false, limit: 'user_rate', reason: 'rate_limited', retryAfterMs };
+  }
+  if (config.agent && config.agent.per_minute > 0) {
+    const { allowed, retryAfterMs } = limiter.take(`agent:${agent_id}`, config.agent);
+    if (!allowed) {
+      // The user is not charged for an event the agent limit refused
+      if (userKey) limiter.refund(userKey, userLimit);
+      return { allowed: false, limit: 'agent_rate', reason: 'rate_limited', retryAfterMs };
+    }
+  }
+
+  return { allowed: true };
+}
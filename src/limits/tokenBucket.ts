@@ -0,0 +1,98 @@
+import { metrics } from '@opentelemetry/api';
+
+const meter = metrics.getMeter('agents-service', '1.0.0');
+const rejections = meter.createCounter('rate_limit.rejections', {
+  description: 'Events refused by a rate limit or quota, by limit',
+});
+
+/** Stop tracking buckets once this many exist, dropping the ones that have refilled. */
+const MAX_BUCKETS = 10_000;
+const BUCKET_IDLE_MS = 10 * 60_000;
+
+export interface BucketLimit {
+  /** Sustained rate. */
+  per_minute: number;
+  /** Events allowed at once after a quiet period. Defaults to `per_minute`. */
+  burst?: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  /** How long until one more event would be allowed; 0 when allowed. */
+  retryAfterMs: number;
+}
+
+/**
+ * A rate limit or quota was exceeded. Raised for callers that are answered
+ * inline, which get a 429 with `Retry-After`.
+ */
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly limit: string,
+    public readonly retryAfterMs: number,
+  ) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
+export function recordRejection(limit: string): void {
+  rejections.add(1, { 'limit.name': limit });
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token buckets by key, held in this process. Each instance enforces its own
+ * limits, so N instances admit up to N times the configured rate.
+ */
+export class TokenBucketLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  /** Take one token from `key`'s bucket if there is one. */
+  public take(key: string, limit: BucketLimit): TakeResult {
+    const capacity = Math.max(1, limit.burst ?? limit.per_minute);
+    const refillPerMs = limit.per_minute / 60_000;
+    const now = Date.now();
+
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+    if (!this.buckets.has(key)) this.insert(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true, retryAfterMs: 0 };
+    }
+    return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+  }
+
+  /** Give back a token taken for an event that did not run after all. */
+  public refund(key: string, limit: BucketLimit): void {
+    const bucket = this.buckets.get(key);
+    if (bucket) bucket.tokens = Math.min(Math.max(1, limit.burst ?? limit.per_minute), bucket.tokens + 1);
+  }
+
+  public clear(): void {
+    this.buckets.clear();
+  }
+
+  private insert(key: string, bucket: Bucket): void {
+    if (this.buckets.size >= MAX_BUCKETS) {
+      // Dropping a bucket only refills it early, so idle ones go first
+      const cutoff = Date.now() - BUCKET_IDLE_MS;
+      for (const [k, b] of this.buckets) if (b.updatedAt <= cutoff) this.buckets.delete(k);
+      if (this.buckets.size >= MAX_BUCKETS) {
+        const oldest = this.buckets.keys().next().value;
+        if (oldest !== undefined) this.buckets.delete(oldest);
+      }
+    }
+    this.buckets.set(key, bucket);
+  }
+}
+
+export const rateLimiter = new TokenBucketLimiter();
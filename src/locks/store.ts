@@ -0,0 +1,133 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Client } from '@libsql/client';
+import { runMigrations, Migration } from '../utils/migrations.js';
+import { CONFIG } from '../utils/config.js';
+import { conversationStore } from '../clients/conversationStore.js';
+import { TursoClient } from '../clients/turso.js';
+
+/**
+ * Mutual exclusion by key with expiring leases. A lock whose lease runs out
+ * (e.g. its holder crashed) can be taken by anyone.
+ */
+export interface LockBackend {
+  /** Take the lock if it is free; returns the holder's token, or null if it is held. */
+  tryAcquire(key: string, ttlMs: number): Promise<string | null>;
+  /** Extend the lease; false if the lock is no longer held with this token. */
+  extend(key: string, token: string, ttlMs: number): Promise<boolean>;
+  release(key: string, token: string): Promise<void>;
+}
+
+export type LockBackendType = 'memory' | 'libsql';
+
+const LOCK_MIGRATIONS: Migration[] = [
+  {
+    id: 'event_locks_001_create',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS event_locks (
+        key TEXT PRIMARY KEY,
+        token TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      )`,
+    ],
+  },
+];
+
+/**
+ * Locks held in this process only. Enough for a single instance.
+ */
+export class InMemoryLockBackend implements LockBackend {
+  private locks = new Map<string, { token: string; expires_at: number }>();
+
+  public async tryAcquire(key: string, ttlMs: number): Promise<string | null> {
+    const now = Date.now();
+    const held = this.locks.get(key);
+    if (held && held.expires_at > now) return null;
+
+    const token = uuidv4();
+    this.locks.set(key, { token, expires_at: now + ttlMs });
+    return token;
+  }
+
+  public async extend(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const held = this.locks.get(key);
+    if (!held || held.token !== token) return false;
+    held.expires_at = Date.now() + ttlMs;
+    return true;
+  }
+
+  public async release(key: string, token: string): Promise<void> {
+    if (this.locks.get(key)?.token === token) this.locks.delete(key);
+  }
+}
+
+/**
+ * Locks in the shared libSQL database, for deployments with several instances.
+ */
+export class LibsqlLockBackend implements LockBackend {
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(private db: Client) {}
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = runMigrations(this.db, LOCK_MIGRATIONS)
+        .then(() => undefined)
+        .catch((err) => {
+          this.schemaReady = null;
+          throw err;
+        });
+    }
+    return this.schemaReady;
+  }
+
+  public async tryAcquire(key: string, ttlMs: number): Promise<string | null> {
+    await this.ensureSchema();
+    const now = Date.now();
+    const token = uuidv4();
+    const res = await this.db.execute({
+      sql: `
+        INSERT INTO event_locks (key, token, expires_at) VALUES (?, ?, ?)
+        ON CONFLICT(key) DO UPDATE SET token = excluded.token, expires_at = excluded.expires_at
+        WHERE event_locks.expires_at <= ?
+      `,
+      args: [key, token, now + ttlMs, now],
+    });
+    return res.rowsAffected > 0 ? token : null;
+  }
+
+  public async extend(key: string, token: string, ttlMs: number): Promise<boolean> {
+    await this.ensureSchema();
+    const res = await this.db.execute({
+      sql: 'UPDATE event_locks SET expires_at = ? WHERE key = ? AND token = ?',
+      args: [Date.now() + ttlMs, key, token],
+    });
+    return res.rowsAffected > 0;
+  }
+
+  public async release(key: string, token: string): Promise<void> {
+    await this.ensureSchema();
+    await this.db.execute({ sql: 'DELETE FROM event_locks WHERE key = ? AND token = ?', args: [key, token] });
+  }
+}
+
+/**
+ * Select the lock backend. `libsql` shares the conversation store's database
+ * and therefore needs CONVERSATION_STORE to be `turso` or `sqlite`.
+ */
+export function createLockBackend(
+  backend: LockBackendType = CONFIG.LOCK_BACKEND as LockBackendType
+): LockBackend {
+  switch (backend) {
+    case 'memory':
+      return new InMemoryLockBackend();
+    case 'libsql':
+      if (!(conversationStore instanceof TursoClient)) {
+        throw new Error('LOCK_BACKEND=libsql requires a libSQL conversation store');
+      }
+      return new LibsqlLockBackend(conversationStore.client);
+    default:
+      throw new Error(`Unknown LOCK_BACKEND: ${backend}`);
+  }
+}
+
+export const lockBackend: LockBackend = createLockBackend();
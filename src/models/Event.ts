@@ -54,6 +54,10 @@ export interface Event<T = any> {
 export interface EventMetadata {
   placeholder_message_id?: number;
   agent_id?: string;
+  /** Run against this version of the agent's config instead of the current one. */
+  agent_version?: number;
   sessionId?: string;
+  /** Answer to a tool approval prompt, e.g. from a button callback. */
+  approval?: { id: string; decision: 'approve' | 'deny' };
   [key: string]: any;
 }
\ No newline at end of file
@@ -1,14 +1,22 @@
 export type IntegrationType = 'telegram' | 'watch-app' | string;
-export type MessageType = 'text' | 'audio';
+export type MessageType = 'text' | 'audio' | 'json';
 
 export interface ResponseMessage {
   type: MessageType;
   text?: string;
   audio?: ResponseAudio;
+  data?: unknown;                  // parsed structured output, for `json` messages
+  approval?: ResponseApproval;     // set on approve/deny prompts, so integrations can render buttons
   placeholder_message_id?: number;
   options?: Options;
 }
 
+export interface ResponseApproval {
+  id: string;                      // answer with metadata.approval = { id, decision: 'approve' | 'deny' }
+  tools: string[];
+  expires_at: number;              // unix milliseconds
+}
+
 export interface ResponseAudio {
   data: string;
   format: string;
@@ -0,0 +1,55 @@
+import type { ToolCall, ToolMessage } from '../clients/llm.js';
+import type { EventMetadata } from '../models/Event.js';
+import type { ToolApproval } from '../approvals/store.js';
+
+/**
+ * The user's answer to an approval prompt, from a `[confirm:<id>]` or
+ * `[deny:<id>]` tag or from a callback's `metadata.approval`.
+ */
+export interface ApprovalDecision {
+  id: string;
+  decision: 'approve' | 'deny';
+}
+
+/** Why held-back tool calls did not run. */
+export type RefusalReason = 'denied' | 'expired' | 'superseded' | 'unavailable';
+
+const REFUSAL_MESSAGES: Record<RefusalReason, string> = {
+  denied: 'The user refused this action. Do not retry it unless they ask for it again.',
+  expired: 'The user did not approve this action in time, so it was not carried out.',
+  superseded: 'The user did not approve this action; they sent a new message instead, so it was not carried out.',
+  unavailable: 'This action needs the user\'s approval, which cannot be asked for here, so it was not carried out.',
+};
+
+export const APPROVAL_NOT_PENDING_MESSAGE = 'That request is no longer waiting for your approval.';
+
+export function approvalDecisionFromMetadata(metadata?: EventMetadata): ApprovalDecision | undefined {
+  const approval = metadata?.approval;
+  if (!approval?.id || (approval.decision !== 'approve' && approval.decision !== 'deny')) return undefined;
+  return { id: String(approval.id), decision: approval.decision };
+}
+
+/** Result for a held-back tool call that was not run, so the model knows why. */
+export function refusedToolMessage(call: ToolCall, reason: RefusalReason): ToolMessage {
+  return {
+    role: 'tool',
+    content: JSON.stringify([{ error: { type: `approval_${reason}`, tool: call.function.name, message: REFUSAL_MESSAGES[reason] } }]),
+    tool_call_id: call.id,
+  };
+}
+
+function describeCall(call: ToolCall): string {
+  const args = call.function.arguments?.trim() || '{}';
+  return `• ${call.function.name} ${args.length > 200 ? `${args.slice(0, 200)}…` : args}`;
+}
+
+/** Text of the approve/deny prompt sent to the user. */
+export function approvalPrompt(approval: ToolApproval): string {
+  const minutes = Math.max(1, Math.round((approval.expires_at - approval.created_at) / 60_000));
+  return [
+    `⚠️ I need your approval before I continue:`,
+    ...approval.tool_calls.map(describeCall),
+    '',
+    `Reply [confirm:${approval.id}] to go ahead or [deny:${approval.id}] to cancel. This request expires in ${minutes} minute(s).`,
+  ].join('\n');
+}
@@ -0,0 +1,138 @@
+import { trace, SpanStatusCode, Tracer } from '@opentelemetry/api';
+import type { Content } from '../../clients/llm.js';
+import type { ContextProvider, ContextProvidersConfig, ContextRequest, ContextTarget } from './types.js';
+import { defaultContextProviders } from './providers.js';
+
+const tracer: Tracer = trace.getTracer('agents-service', '1.0.0');
+
+export const DEFAULT_CONTEXT_PROVIDER_BUDGET = 4000;
+
+/** Parts left with fewer tokens than this are dropped rather than truncated. */
+const MIN_TRUNCATED_TOKENS = 50;
+
+/** ~4 characters per token, as in ContextManager's estimates. */
+function estimatePartTokens(parts: Content[]): number {
+  return parts.reduce((sum, part) => sum + Math.ceil((part.text?.length ?? 0) / 4), 0);
+}
+
+function truncateParts(parts: Content[], maxTokens: number): Content[] {
+  let remainingChars = maxTokens * 4;
+  const truncated: Content[] = [];
+  for (const part of parts) {
+    if (part.type !== 'text' || !part.text) {
+      truncated.push(part);
+      continue;
+    }
+    if (remainingChars <= 0) break;
+    truncated.push(part.text.length > remainingChars
+      ? { ...part, text: `${part.text.slice(0, remainingChars)}…` }
+      : part);
+    remainingChars -= part.text.length;
+  }
+  return truncated;
+}
+
+interface Contribution {
+  provider: ContextProvider;
+  priority: number;
+  parts: Content[];
+}
+
+/**
+ * Assembles context from pluggable providers.
+ *
+ * For each target, the providers enabled for the agent run concurrently. Their
+ * parts are ordered by priority, capped at each provider's `max_tokens`, and fit
+ * into the target's total budget by truncating or dropping the lowest priorities
+ * first. A provider that throws is logged and skipped.
+ */
+export class ContextBuilder {
+  private providers = new Map<string, ContextProvider>();
+
+  constructor(providers: ContextProvider[] = defaultContextProviders()) {
+    for (const provider of providers) this.register(provider);
+  }
+
+  /** Add a provider, replacing any provider of the same name. */
+  public register(provider: ContextProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  public async build(target: ContextTarget, request: ContextRequest, config: ContextProvidersConfig = {}): Promise<Content[]> {
+    const enabled = [...this.providers.values()].filter(provider =>
+      provider.target === target && (config.providers?.[provider.name]?.enabled ?? provider.enabledByDefault));
+
+    return tracer.startActiveSpan('ContextBuilder.build', {
+      attributes: { 'context.target': target, 'context.provider_count': enabled.length },
+    }, async (span) => {
+      try {
+        const contributions = await Promise.all(enabled.map(async (provider): Promise<Contribution | null> => {
+          const settings = config.providers?.[provider.name] ?? {};
+          let parts: Content[] | null;
+          try {
+            parts = await provider.run(request);
+          } catch (err) {
+            if (provider.required) throw err;
+            console.error(`❌ Context provider ${provider.name} failed:`, err);
+            span.addEvent('context.provider_failed', { 'context.provider': provider.name });
+            return null;
+          }
+          if (!parts?.length) return null;
+
+          const maxTokens = settings.max_tokens ?? provider.maxTokens;
+          if (maxTokens != null && !provider.required) parts = truncateParts(parts, maxTokens);
+          return { provider, priority: settings.priority ?? provider.priority, parts };
+        }));
+
+        const ordered = contributions
+          .filter((c): c is Contribution => c !== null)
+          .sort((a, b) => b.priority - a.priority);
+
+        let remaining = config.max_tokens ?? DEFAULT_CONTEXT_PROVIDER_BUDGET;
+        const included: string[] = [];
+        const dropped: string[] = [];
+        const kept = new Set<Contribution>();
+        // Required parts are paid for first, whatever their priority
+        for (const c of ordered) {
+          if (!c.provider.required) continue;
+          remaining -= estimatePartTokens(c.parts);
+          kept.add(c);
+        }
+        for (const c of ordered) {
+          if (c.provider.required) continue;
+          const tokens = estimatePartTokens(c.parts);
+          if (tokens > remaining) {
+            if (remaining < MIN_TRUNCATED_TOKENS) {
+              dropped.push(c.provider.name);
+              continue;
+            }
+            c.parts = truncateParts(c.parts, remaining);
+          }
+          remaining -= Math.min(tokens, remaining);
+          kept.add(c);
+        }
+
+        const parts: Content[] = [];
+        for (const c of ordered) {
+          if (!kept.has(c)) continue;
+          included.push(c.provider.name);
+          parts.push(...c.parts);
+        }
+
+        if (dropped.length) console.warn(`✂️ Context budget exceeded, dropped: ${dropped.join(', ')}`);
+        span.setAttributes({
+          'context.providers_included': included.join(','),
+          'context.providers_dropped': dropped.join(','),
+        });
+        span.setStatus({ code: SpanStatusCode.OK });
+        return parts;
+      } catch (err) {
+        span.recordException(err as Error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: (err as Error).message });
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+}
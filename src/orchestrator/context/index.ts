@@ -0,0 +1,3 @@
+export * from './types.js';
+export * from './providers.js';
+export { ContextBuilder, DEFAULT_CONTEXT_PROVIDER_BUDGET } from './builder.js';
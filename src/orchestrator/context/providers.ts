@@ -0,0 +1,154 @@
+import { searchGraphiti } from '../../clients/graphiti.js';
+import { getCurrentDateTimeSG } from '../../utils/getCurrentDateTimeSG.js';
+import type { ContextProvider, ContextRequest } from './types.js';
+
+function text(value: string) {
+  return [{ type: 'text' as const, text: value }];
+}
+
+/** The agent's `system_prompt`. */
+export const systemPromptProvider: ContextProvider = {
+  name: 'system_prompt',
+  target: 'system',
+  priority: 100,
+  required: true,
+  enabledByDefault: true,
+  async run({ systemPrompt }) {
+    return text(systemPrompt);
+  },
+};
+
+/** Who the agent is talking to, from the event's sender. */
+export const userInfoProvider: ContextProvider = {
+  name: 'user_info',
+  target: 'system',
+  priority: 90,
+  enabledByDefault: true,
+  async run({ user }) {
+    if (!user.user_id) return null;
+
+    const info = [`- **User ID**: ${user.user_id}`];
+    if (user.chat_id) info.push(`- **Chat ID**: ${user.chat_id}`);
+    if (user.first_name || user.last_name) {
+      info.push(`- **Name**: ${user.first_name || ''} ${user.last_name || ''}`.trim());
+    }
+    if (user.username) info.push(`- **Username**: @${user.username}`);
+    return text("Current User Information:\n" + info.join('\n'));
+  },
+};
+
+/**
+ * Facts about the user from earlier conversations, searched in the Graphiti
+ * knowledge graph by the user's name. Only runs for human senders.
+ */
+export function createGraphitiProvider(search: (payload: { text: string }) => Promise<any> = searchGraphiti): ContextProvider {
+  return {
+    name: 'graphiti',
+    target: 'system',
+    priority: 80,
+    maxTokens: 1000,
+    enabledByDefault: true,
+    async run({ user, isBot, notify }: ContextRequest) {
+      if (isBot !== false) return null;
+
+      await notify('retrieving_context');
+
+      const name = user.first_name?.trim() || user.username?.trim();
+      if (!name) {
+        console.log("⚠️ No valid name found — skipping Graphiti search.");
+        return null;
+      }
+
+      let results: any = null;
+      try {
+        const searchResponse = await search({ text: name });
+        results = searchResponse?.results || null;
+        console.log(`Graphiti search found ${results?.nodes?.length || 0} nodes and ${results?.edges?.length || 0} edges for "${name}".`);
+      } catch (error) {
+        console.error("Error searching Graphiti:", error);
+        return null;
+      }
+      if (!results) return null;
+
+      const nodeSummaries = results.nodes
+        ?.slice(0, 5) // limit to top 5 nodes
+        .map((node: any) => `- ${node.name}: ${node.summary}`)
+        .join("\n") || "";
+      const edgeFacts = results.edges
+        ?.slice(0, 5)
+        .map((edge: any) => `- ${edge.fact}`)
+        .join("\n") || "";
+      if (!nodeSummaries && !edgeFacts) return null;
+
+      return text(
+        `Here are relevant facts about ${user.first_name || user.user_id} from the Graphiti knowledge graph:\n\n` +
+        (nodeSummaries ? `🧠 Entities:\n${nodeSummaries}\n\n` : "") +
+        (edgeFacts ? `🔗 Relationships:\n${edgeFacts}\n\n` : "") +
+        `If there are any location information provided, it is probably outdated and you should confirm the user's location if it is required.`
+      );
+    },
+  };
+}
+
+/** `metadata.context`, given as a string or as a map of labelled values. */
+export const metadataContextProvider: ContextProvider = {
+  name: 'metadata_context',
+  target: 'system',
+  priority: 70,
+  enabledByDefault: true,
+  async run({ event }) {
+    const rawContext = event.metadata?.context;
+    if (!rawContext) return null;
+
+    if (typeof rawContext === 'string') return text("Context:\n\n" + rawContext);
+    if (typeof rawContext === 'object') {
+      const entries = Object.entries(rawContext);
+      if (entries.length === 0) return null;
+      return text("Context:\n\n" + entries
+        .map(([key, value]) => `- **${key.replace(/_/g, ' ')}**: ${value}`)
+        .join("\n"));
+    }
+
+    console.warn(`event.metadata.context found, but not a string or object: ${typeof rawContext}`);
+    return null;
+  },
+};
+
+/** Where the user is, from `metadata.location`, attached to each message. */
+export const locationProvider: ContextProvider = {
+  name: 'location',
+  target: 'user',
+  priority: 100,
+  enabledByDefault: true,
+  async run({ event }) {
+    const location = event.metadata?.location;
+    if (!location?.geocode_information) return null;
+    return text(`I am currently at:\n${location.geocode_information}`);
+  },
+};
+
+/**
+ * When each message was sent, kept in history. Off by default, since
+ * LLMClient already tells the model the current time on every call.
+ */
+export const currentTimeProvider: ContextProvider = {
+  name: 'current_time',
+  target: 'user',
+  priority: 50,
+  enabledByDefault: false,
+  async run() {
+    return text(`Sent at: ${getCurrentDateTimeSG()}`);
+  },
+};
+
+/** Providers registered on a new ContextBuilder. */
+export function defaultContextProviders(): ContextProvider[] {
+  return [
+    systemPromptProvider,
+    userInfoProvider,
+    createGraphitiProvider(),
+    metadataContextProvider,
+    locationProvider,
+    currentTimeProvider,
+  ];
+}
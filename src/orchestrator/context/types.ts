@@ -0,0 +1,63 @@
+import type { Event } from '../../models/Event.js';
+import type { Content } from '../../clients/llm.js';
+import type { ProgressStage } from '../progress.js';
+
+/**
+ * Where a provider's parts go:
+ * - `system`: the system message written when a session starts (or the agent changes)
+ * - `user`: prepended to the user message of every event
+ */
+export type ContextTarget = 'system' | 'user';
+
+/** Everything a provider may draw on for one event. */
+export interface ContextRequest {
+  event: Event;
+  agentId: string;
+  systemPrompt: string;
+  user: {
+    user_id?: string;
+    chat_id?: string;
+    first_name?: string;
+    last_name?: string;
+    username?: string;
+  };
+  /** `sender.is_bot`, or undefined when the event has no source. */
+  isBot?: boolean;
+  /** Show a progress message to the user, e.g. while a slow provider runs. */
+  notify: (stage: ProgressStage) => Promise<void>;
+}
+
+/**
+ * A source of context. Providers are run concurrently; returning null means
+ * there is nothing to contribute for this event.
+ */
+export interface ContextProvider {
+  readonly name: string;
+  readonly target: ContextTarget;
+  /** Higher priorities come first and are the last to be dropped when over budget. */
+  readonly priority: number;
+  /** Default cap on the provider's output; unset means only the total budget applies. */
+  readonly maxTokens?: number;
+  /** Required parts are never truncated or dropped. */
+  readonly required?: boolean;
+  /** Whether the provider runs when the agent does not mention it. */
+  readonly enabledByDefault: boolean;
+  run(request: ContextRequest): Promise<Content[] | null>;
+}
+
+/** Per-agent overrides for one provider. */
+export interface ContextProviderSettings {
+  enabled?: boolean;
+  priority?: number;
+  max_tokens?: number;
+}
+
+/**
+ * Context provider settings (`AgentConfig.context_providers`).
+ */
+export interface ContextProvidersConfig {
+  /** Token budget for all parts of one target together. Defaults to 4000. */
+  max_tokens?: number;
+  /** Overrides keyed by provider name. */
+  providers?: Record<string, ContextProviderSettings>;
+}
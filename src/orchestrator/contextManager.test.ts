@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LLMClient } from '../clients/llm.js';
+import { InMemoryConversationStore } from '../clients/memoryStore.js';
+import { ContextManager, SUMMARY_USAGE_FINISH_REASON } from './contextManager.js';
+
+test('rows that only record summary usage are not replayed', async () => {
+  const store = new InMemoryConversationStore();
+  const log = (role: 'system' | 'user', text: string, finish_reason?: string) => store.logConversation({
+    model: 'm', role, finish_reason, session_id: 's1', message: JSON.stringify({ role, content: [{ type: 'text', text }] }),
+  });
+  await log('system', 'You are helpful.');
+  await log('user', 'Hi');
+  await log('system', 'Earlier conversation summarised.', SUMMARY_USAGE_FINISH_REASON);
+  await log('user', 'Still there?');
+
+  const manager = new ContextManager(new LLMClient(), store);
+  const history = await manager.buildHistory({ sessionId: 's1', rows: await store.getLatestConversationBySessionId('s1'), model: 'm' });
+
+  assert.deepEqual(history.map(m => m.role), ['system', 'user', 'user']);
+});
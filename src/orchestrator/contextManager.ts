@@ -0,0 +1,279 @@
+import { trace, SpanStatusCode, Tracer } from '@opentelemetry/api';
+import type { Content, Message, SystemMessage, LLMClient } from '../clients/llm.js';
+import type { ConversationRow, ConversationStore } from '../clients/conversationStore.js';
+import type { ChatCompletion } from '../clients/providers/index.js';
+
+const tracer: Tracer = trace.getTracer('agents-service', '1.0.0');
+
+/**
+ * Per-agent context window settings (`AgentConfig.context`).
+ */
+export interface ContextConfig {
+  /** Token budget for replayed history. Defaults to the model's entry in MODEL_CONTEXT_BUDGETS. */
+  max_tokens?: number;
+  /** Share of the budget kept verbatim when older turns are summarised (0-1). */
+  recent_share?: number;
+  /** Number of most recent user turns whose audio/image parts are replayed as-is. */
+  keep_binary_turns?: number;
+  /** Model used to write summaries. Defaults to the agent's model. */
+  summary_model?: string;
+}
+
+/**
+ * Replayed-history budgets per model family, matched by prefix. These are well
+ * below the models' context windows to keep per-event cost predictable.
+ */
+export const MODEL_CONTEXT_BUDGETS: Record<string, number> = {
+  'gemini-2.5-pro': 128_000,
+  'gemini-2.5-flash': 64_000,
+  'gemini-2.0-flash': 64_000,
+  'claude': 64_000,
+  'gpt-4o': 48_000,
+  'gpt-4.1': 64_000,
+};
+
+const DEFAULT_CONTEXT_BUDGET = 32_000;
+const DEFAULT_RECENT_SHARE = 0.6;
+const DEFAULT_KEEP_BINARY_TURNS = 1;
+
+/** Rough per-part costs for binary inputs, in tokens. */
+const IMAGE_TOKENS = 258;
+const AUDIO_TOKENS_PER_KB = 16;
+
+export type TokenUsage = ChatCompletion['usage'];
+
+/**
+ * `finish_reason` of a row that only records the tokens a summary cost, logged
+ * when no LLM turn of the run was there to carry them. Such rows are not replayed.
+ */
+export const SUMMARY_USAGE_FINISH_REASON = 'summary';
+
+const SUMMARY_HEADER = 'Summary of the earlier conversation in this session:';
+
+const SUMMARY_INSTRUCTIONS =
+  'You maintain the running summary of a chat between a user and an AI agent. ' +
+  'Merge the previous summary (if any) with the new transcript into one concise summary. ' +
+  'Keep facts about the user, decisions made, open questions, and results of tool calls that may matter later. ' +
+  'Write in the third person and do not address the user.';
+
+export function contextBudgetForModel(model: string, config: ContextConfig = {}): number {
+  if (config.max_tokens) return config.max_tokens;
+  const bare = model.includes('/') ? model.slice(model.lastIndexOf('/') + 1) : model;
+  const match = Object.keys(MODEL_CONTEXT_BUDGETS)
+    .filter(prefix => bare.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_CONTEXT_BUDGETS[match] : DEFAULT_CONTEXT_BUDGET;
+}
+
+function estimateContentTokens(part: Content): number {
+  switch (part.type) {
+    case 'text':
+      return Math.ceil((part.text?.length ?? 0) / 4);
+    case 'image_url':
+      return IMAGE_TOKENS;
+    case 'input_audio':
+      // base64 → bytes, then a flat rate per KB of compressed audio
+      return Math.ceil(((part.input_audio?.data.length ?? 0) * 0.75 / 1024) * AUDIO_TOKENS_PER_KB);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Approximate token count for one message (~4 characters per token for text).
+ */
+export function estimateTokens(message: Message): number {
+  const overhead = 4;
+  if (Array.isArray(message.content)) {
+    return overhead + message.content.reduce((sum, part) => sum + estimateContentTokens(part), 0);
+  }
+  let chars = typeof message.content === 'string' ? message.content.length : 0;
+  if (message.role === 'assistant') {
+    for (const call of message.tool_calls ?? []) chars += call.function.name.length + call.function.arguments.length;
+    for (const block of message.thinking_blocks ?? []) chars += block.thinking.length;
+  }
+  return overhead + Math.ceil(chars / 4);
+}
+
+/**
+ * Replace audio and image parts with short text placeholders.
+ */
+export function stripBinaryParts(message: Message): Message {
+  if (message.role !== 'user' && message.role !== 'system') return message;
+  if (!message.content.some(p => p.type !== 'text')) return message;
+
+  const content: Content[] = message.content.map(part => {
+    if (part.type === 'input_audio') return { type: 'text', text: '[voice message omitted from history]' };
+    if (part.type === 'image_url') return { type: 'text', text: '[image omitted from history]' };
+    return part;
+  });
+  return { ...message, content };
+}
+
+/**
+ * Split messages into turns that each start at a user message, so an assistant
+ * tool call is never separated from its tool results.
+ */
+function groupTurns<T extends { message: Message }>(entries: T[]): T[][] {
+  const turns: T[][] = [];
+  for (const entry of entries) {
+    if (entry.message.role === 'user' || turns.length === 0) turns.push([entry]);
+    else turns[turns.length - 1].push(entry);
+  }
+  return turns;
+}
+
+function renderTranscript(messages: Message[]): string {
+  const lines: string[] = [];
+  for (const m of messages) {
+    if (m.role === 'tool') {
+      lines.push(`Tool result: ${m.content.slice(0, 1000)}`);
+    } else if (m.role === 'assistant') {
+      if (m.content) lines.push(`Assistant: ${m.content}`);
+      for (const call of m.tool_calls ?? []) lines.push(`Assistant called ${call.function.name}(${call.function.arguments})`);
+    } else {
+      const text = m.content.map(p => p.text ?? '').filter(Boolean).join('\n');
+      if (text) lines.push(`${m.role === 'user' ? 'User' : 'System'}: ${text}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+function summaryMessage(summary: string): SystemMessage {
+  return { role: 'system', content: [{ type: 'text', text: `${SUMMARY_HEADER}\n\n${summary}` }] };
+}
+
+/**
+ * Turns stored conversation rows into the history replayed to the LLM.
+ *
+ * - Leading system messages (the session bootstrap) are always kept.
+ * - Audio and image parts older than `keep_binary_turns` user turns become placeholders.
+ * - When the history exceeds the model's budget, the oldest turns are summarised
+ *   together with any previous summary. Summaries are stored with the number of
+ *   rows they cover, so later events reuse them instead of summarising again.
+ *   The tokens a summary costs, and the model that wrote it, are reported through
+ *   `onUsage` for the caller to log.
+ */
+export class ContextManager {
+  constructor(private llm: LLMClient, private store: ConversationStore) {}
+
+  public async buildHistory({ sessionId, rows, model, config = {}, onUsage }: {
+    sessionId: string;
+    rows: ConversationRow[];
+    model: string;
+    config?: ContextConfig;
+    onUsage?: (usage: TokenUsage, model: string) => void;
+  }): Promise<Message[]> {
+    return tracer.startActiveSpan('ContextManager.buildHistory', {
+      attributes: { 'session.id': sessionId, 'context.row_count': rows.length },
+    }, async (span) => {
+      try {
+        // Parse rows, remembering each message's row position for summary bookkeeping
+        const entries: Array<{ index: number; message: Message }> = [];
+        rows.forEach((row, index) => {
+          if (row.finish_reason === SUMMARY_USAGE_FINISH_REASON) return;
+          try {
+            entries.push({ index, message: JSON.parse(row.message) as Message });
+          } catch (error) {
+            console.error('Failed to parse message from database.', error, 'Row:', row);
+          }
+        });
+
+        let pinnedCount = 0;
+        while (pinnedCount < entries.length && entries[pinnedCount].message.role === 'system') pinnedCount++;
+        const pinned = entries.slice(0, pinnedCount).map(e => e.message);
+
+        // Skip rows already folded into a stored summary
+        const stored = await this.store.getLatestSummary(sessionId);
+        let summary = stored?.summary ?? null;
+        let coveredRows = stored?.message_count ?? 0;
+        const remaining = entries.slice(pinnedCount).filter(e => e.index >= coveredRows);
+
+        const keepBinaryTurns = config.keep_binary_turns ?? DEFAULT_KEEP_BINARY_TURNS;
+        let turns = groupTurns(remaining);
+        turns = turns.map((turn, i) => i < turns.length - keepBinaryTurns
+          ? turn.map(e => ({ ...e, message: stripBinaryParts(e.message) }))
+          : turn);
+
+        const budget = contextBudgetForModel(model, config);
+        const fixedTokens = pinned.reduce((sum, m) => sum + estimateTokens(m), 0)
+          + (summary ? estimateTokens(summaryMessage(summary)) : 0);
+        const turnTokens = turns.map(turn => turn.reduce((sum, e) => sum + estimateTokens(e.message), 0));
+        const totalTokens = fixedTokens + turnTokens.reduce((a, b) => a + b, 0);
+
+        span.setAttributes({ 'context.budget': budget, 'context.tokens_before': totalTokens });
+
+        if (totalTokens > budget && turns.length > 1) {
+          // Keep the newest turns that fit in the recent share; always keep the last one
+          const recentBudget = budget * (config.recent_share ?? DEFAULT_RECENT_SHARE);
+          let keepFrom = turns.length - 1;
+          let recentTokens = turnTokens[keepFrom];
+          while (keepFrom > 0 && recentTokens + turnTokens[keepFrom - 1] <= recentBudget) {
+            keepFrom--;
+            recentTokens += turnTokens[keepFrom];
+          }
+
+          const toSummarise = turns.slice(0, keepFrom).flat();
+          if (toSummarise.length > 0) {
+            try {
+              const written = await this.summarise(summary, toSummarise.map(e => e.message), config.summary_model ?? model);
+              summary = written.text;
+              onUsage?.(written.usage, config.summary_model ?? model);
+              coveredRows = turns[keepFrom][0].index;
+              await this.store.saveSummary({
+                session_id: sessionId,
+                summary,
+                message_count: coveredRows,
+                model: config.summary_model ?? model,
+              });
+              span.setAttribute('context.summarised_messages', toSummarise.length);
+            } catch (error) {
+              // Still drop the old turns so the request fits; the next event retries the summary
+              console.error('❌ Failed to summarise history, truncating instead:', error);
+              span.setAttribute('context.truncated_messages', toSummarise.length);
+            }
+            turns = turns.slice(keepFrom);
+          }
+        }
+
+        const history: Message[] = [
+          ...pinned,
+          ...(summary ? [summaryMessage(summary)] : []),
+          ...turns.flat().map(e => e.message),
+        ];
+
+        span.setAttribute('context.tokens_after', history.reduce((sum, m) => sum + estimateTokens(m), 0));
+        span.setStatus({ code: SpanStatusCode.OK });
+        return history;
+      } catch (err) {
+        span.recordException(err as Error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: (err as Error).message });
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  private async summarise(previous: string | null, messages: Message[], model: string): Promise<{ text: string; usage: TokenUsage }> {
+    const transcript = renderTranscript(messages);
+    const response = await this.llm.getLLMResponse({
+      model,
+      conversation: [
+        { role: 'system', content: [{ type: 'text', text: SUMMARY_INSTRUCTIONS }] },
+        {
+          role: 'user',
+          content: [{
+            type: 'text',
+            text: (previous ? `Previous summary:\n${previous}\n\n` : '') + `New transcript:\n${transcript}`,
+          }],
+        },
+      ],
+    });
+
+    const text = response?.choices?.[0]?.message?.content;
+    if (typeof text !== 'string' || !text.trim()) throw new Error('[ContextManager] Summary response was empty');
+    console.log(`🗜️ Summarised ${messages.length} message(s) into ${text.length} characters`);
+    return { text: text.trim(), usage: response.usage };
+  }
+}
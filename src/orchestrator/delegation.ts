@@ -0,0 +1,106 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Event } from '../models/Event.js';
+import type { ToolDefinition } from './toolRegistry.js';
+
+export const DELEGATE_TOOL_NAME = 'delegate_to_agent';
+
+/** Hard cap on nested delegation, whatever agents configure. */
+export const MAX_DELEGATION_DEPTH = 3;
+
+/**
+ * Which agents an agent may hand tasks to (`AgentConfig.delegation`).
+ * A sub-run counts against the tool deadline and is cancelled when it passes,
+ * so slow sub-agents may need a `tool_execution.tool_timeouts.delegate_to_agent` override.
+ */
+export interface DelegationConfig {
+  /** agent_ids this agent may delegate to. */
+  allowed_agents: string[];
+  /** Maximum nesting below this agent's run. Defaults to 1, capped at MAX_DELEGATION_DEPTH. */
+  max_depth?: number;
+}
+
+/**
+ * Where a run sits in a delegation chain. The orchestrator hands it to sub-runs
+ * directly; it is never read from an event, whose metadata callers control.
+ */
+export interface DelegationContext {
+  /** 0 for a run started by an event from outside, 1 for its sub-runs, and so on. */
+  depth: number;
+  /** agent_ids from the outermost run down to the current one. */
+  chain: string[];
+  /** Remaining nesting allowed below this run, fixed by the outermost delegating agent. */
+  max_depth: number;
+  parent_session_id?: string;
+  /** User of the outermost run, whom sub-runs' usage is logged against. */
+  user_id?: string;
+}
+
+/** Context of a run started by an event from outside. */
+export function rootDelegationContext(agentId: string, userId?: string): DelegationContext {
+  return { depth: 0, chain: [agentId], max_depth: MAX_DELEGATION_DEPTH, user_id: userId };
+}
+
+/**
+ * Whether an agent at `ctx` may delegate further, and the depth limit that applies.
+ */
+export function canDelegate(config: DelegationConfig | undefined, ctx: DelegationContext): boolean {
+  if (!config?.allowed_agents?.length) return false;
+  const maxDepth = Math.min(config.max_depth ?? 1, ctx.max_depth, MAX_DELEGATION_DEPTH);
+  return ctx.depth < maxDepth;
+}
+
+/** Tool definition offered to the LLM, limited to the agents it may delegate to. */
+export function delegateToolDefinition(config: DelegationConfig): ToolDefinition {
+  return {
+    name: DELEGATE_TOOL_NAME,
+    description:
+      'Hand a self-contained task to another agent and get its final answer back. ' +
+      'The other agent does not see this conversation, so include everything it needs in `task`.',
+    parameters: {
+      type: 'object',
+      properties: {
+        agent_id: { type: 'string', enum: config.allowed_agents, description: 'Agent to delegate to.' },
+        task: { type: 'string', description: 'The task, with all the context the agent needs.' },
+      },
+      required: ['agent_id', 'task'],
+    },
+  };
+}
+
+/**
+ * The event a sub-run handles, and the context to run it with. It has no user
+ * or recipients, so nothing is sent to the user and its messages go to a fresh
+ * child session of the parent; the context keeps the user its usage is charged to.
+ */
+export function buildDelegatedEvent(
+  parent: Event,
+  ctx: DelegationContext,
+  { fromAgentId, toAgentId, task, parentSessionId, maxDepth }: {
+    fromAgentId: string;
+    toAgentId: string;
+    task: string;
+    parentSessionId: string;
+    maxDepth: number;
+  }
+): { event: Event; context: DelegationContext } {
+  const childContext: DelegationContext = {
+    depth: ctx.depth + 1,
+    chain: [...ctx.chain, toAgentId],
+    max_depth: maxDepth,
+    parent_session_id: parentSessionId,
+    user_id: ctx.user_id,
+  };
+
+  const event: Event = {
+    id: `${parent.id}:${toAgentId}:${uuidv4().slice(0, 8)}`,
+    agent_id: toAgentId,
+    timestamp: new Date().toISOString(),
+    messages: [{ type: 'text', text: task }],
+    sender: { source: 'agent', is_bot: true, id: fromAgentId, agent_id: fromAgentId },
+    metadata: {
+      session_id: `${parentSessionId}:${toAgentId}:${uuidv4().slice(0, 8)}`,
+      context: { delegated_by: fromAgentId },
+    },
+  };
+  return { event, context: childContext };
+}
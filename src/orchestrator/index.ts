@@ -1,35 +1,69 @@
 import type { Event } from '../models/Event.js';
 import { v4 as uuidv4 } from 'uuid';
 import { AgentFactory } from '../agents/factory/index.js';
-import { Content, ToolMessage, SystemMessage, AssistantMessage, UserMessage, Conversation, Message, LLMClient } from '../clients/llm.js';
-import { tursoClient } from '../clients/turso.js';
+import { checkAccess } from '../agents/access.js';
+import { Content, ToolMessage, SystemMessage, AssistantMessage, UserMessage, Conversation, LLMClient, LLMStreamDelta } from '../clients/llm.js';
+import { conversationStore, ConversationStore } from '../clients/conversationStore.js';
+import type { LogConversationParams } from '../clients/conversationStore.js';
 import { parseMessage } from '../utils/messageParser.js';
 import { sendResponse } from '../clients/response.js';
-import { MCPClient } from "../clients/mcp.js";
-import { CONFIG } from "../utils/config.js"
 import { sanitizeResponseMessage } from '../utils/sanitiseResponseMessage.js';
 import type { ResponseMessage } from '../models/Response.js';
-import { sendGraphitiEpisode, searchGraphiti } from "../clients/graphiti.js";
-
-const THRESHOLD_HOURS: number = 3;
+import { sendGraphitiEpisode } from "../clients/graphiti.js";
+import { ThrottledMessageEditor } from './streamingEditor.js';
+import { ToolRegistry } from './toolRegistry.js';
+import { executeToolCalls } from './toolExecutor.js';
+import type { ToolExecutionConfig } from './toolExecutor.js';
+import { ContextManager, SUMMARY_USAGE_FINISH_REASON } from './contextManager.js';
+import type { TokenUsage } from './contextManager.js';
+import { ContextBuilder } from './context/index.js';
+import type { ContextRequest } from './context/index.js';
+import { LoopGuard, TurnOutcome, fallbackMessage } from './loopGuard.js';
+import { trace, SpanStatusCode, Tracer } from '@opentelemetry/api';
+import { CONFIG } from '../utils/config.js';
+import { SessionMailbox } from './mailbox.js';
+import { lockBackend } from '../locks/store.js';
+import { buildDelegatedEvent, canDelegate, DELEGATE_TOOL_NAME, delegateToolDefinition, MAX_DELEGATION_DEPTH, rootDelegationContext } from './delegation.js';
+import type { DelegationConfig, DelegationContext } from './delegation.js';
+import { DEFAULT_STRUCTURED_OUTPUT_RETRIES, parseStructuredOutput, repairPrompt, resolveResponseFormat } from './structuredOutput.js';
+import { ProgressReporter } from './progress.js';
+import { APPROVAL_NOT_PENDING_MESSAGE, approvalDecisionFromMetadata, approvalPrompt, refusedToolMessage } from './approvals.js';
+import type { ApprovalDecision } from './approvals.js';
+import { approvalStore } from '../approvals/store.js';
+import type { ApprovalStore, ToolApproval } from '../approvals/store.js';
+import type { LockBackend } from '../locks/store.js';
+import { checkEventLimits } from '../limits/quotas.js';
+import { RateLimitError, recordRejection } from '../limits/tokenBucket.js';
+
+const tracer: Tracer = trace.getTracer('agents-service', '1.0.0');
+
+/** Idle time after which a user's session rolls over, unless the agent sets `session_timeout_hours`. */
+const DEFAULT_SESSION_TIMEOUT_HOURS: number = 3;
+
+/** Replaces the placeholder of an event that was merged into a later one. */
+const COALESCED_PLACEHOLDER_TEXT = "↪️ I'll answer this together with your next message.";
+
+export interface HandleEventOptions {
+  /**
+   * Receives every streamed delta from the LLM. Providing it forces streaming mode,
+   * which is how the server-sent-events variant of `POST /api/events` is served.
+   */
+  onDelta?: (delta: LLMStreamDelta) => void;
+  /**
+   * Cancels the run: it stops before its next LLM turn and aborts running tool
+   * calls. Delegated runs get the signal of the delegating tool call.
+   */
+  signal?: AbortSignal;
+}
 
-interface UntypedDbRow {
-  message: string;
-  [key: string]: any;
+/** Sum of two token counts, undefined when neither is known. */
+function addTokens(a?: number, b?: number): number | undefined {
+  return a == null && b == null ? undefined : (a ?? 0) + (b ?? 0);
 }
 
 export function convertEventToUserMessage(event: Event): UserMessage {
   const content: Content[] = [];
 
-  const location = event.metadata?.location;
-  if (location?.geocode_information) {
-    const locationText = `I am currently at:\n${location.geocode_information}`;
-    content.push({
-      type: "text",
-      text: locationText,
-    });
-  }
-
   for (const msg of event.messages) {
     // Add text if non-empty
     if (msg.text?.trim()) {
@@ -71,26 +105,56 @@ export function convertEventToUserMessage(event: Event): UserMessage {
 
 export class Orchestrator {
   private llm: LLMClient;
-  private mcpClient: MCPClient;
-
-  constructor(private agentFactory: AgentFactory) {
+  private contextManager: ContextManager;
+  private mailbox: SessionMailbox<Awaited<ReturnType<Orchestrator['processEvent']>>>;
+
+  constructor(
+    private agentFactory: AgentFactory,
+    private store: ConversationStore = conversationStore,
+    locks: LockBackend = lockBackend,
+    private contextBuilder: ContextBuilder = new ContextBuilder(),
+    private approvals: ApprovalStore = approvalStore
+  ) {
     this.llm = new LLMClient();
+    this.contextManager = new ContextManager(this.llm, this.store);
+    this.mailbox = new SessionMailbox(locks, (event, options) => this.processEvent(event, options), {
+      coalesce: CONFIG.COALESCE_EVENTS,
+      onCoalesced: (absorbed) => this.settleCoalesced(absorbed),
+    });
+  }
 
-    let baseUrlCore = "https://royzheng-core.hf.space";
+  /**
+   * Edit the placeholders of events merged into a later one; only the newest
+   * event's placeholder receives the reply.
+   */
+  private async settleCoalesced(absorbed: Event[]): Promise<void> {
+    await Promise.all(absorbed
+      .filter(e => e.metadata?.placeholder_message_id != null && e.recipients?.length)
+      .map(e => sendResponse(e, { type: 'text', text: COALESCED_PLACEHOLDER_TEXT }, { includePlaceholder: true, editMessage: true })));
+  }
 
-    this.mcpClient = new MCPClient(
-      `${baseUrlCore}/api/mcp`,
-      CONFIG.MCP_API_KEY!
-    );
+  /**
+   * Handle an event once every earlier event of the same user (or session) has
+   * finished, so concurrent events never interleave their history.
+   */
+  public async handleEvent(event: Event, options: HandleEventOptions = {}) {
+    return this.mailbox.run(event, options);
   }
 
-  public async handleEvent(event: Event) {
+  /**
+   * Run one event. `inherited` is only set for sub-runs started by `delegate`.
+   */
+  private async processEvent(event: Event, options: HandleEventOptions, inherited?: DelegationContext) {
     if (!event.messages) throw new Error('Event missing messages');
 
     let agent_idOverwritten: boolean = false;
     let hasAudioInput: boolean = false; // Determines if an audio output is required
     let sessionCommand: string | null = null;
+    let approvalDecision: ApprovalDecision | undefined = approvalDecisionFromMetadata(event.metadata);
     const conversation: Conversation = [];
+    // Tokens spent summarising history, charged to the run's first LLM turn, or
+    // logged on their own when the run ends before one
+    let summaryUsage = null as { usage: TokenUsage; model: string } | null;
 
     // -- Unpack Event --
     if (!event.agent_id) throw new Error('No agent specified');
@@ -105,49 +169,13 @@ export class Orchestrator {
     const first_name = event.sender?.first_name != null ? String(event.sender.first_name) : undefined;
     const last_name = event.sender?.last_name != null ? String(event.sender.last_name) : undefined;
     const username = event.sender?.username != null ? String(event.sender.username) : undefined;
-
-    let userInfoContext = "";
-    if (user_id) { // Only proceed if user_id is defined
-      let info = [];
-      if (user_id) info.push(`- **User ID**: ${user_id}`);
-      if (chat_id) info.push(`- **Chat ID**: ${chat_id}`);
-      if (first_name || last_name) {
-        info.push(`- **Name**: ${first_name || ''} ${last_name || ''}`.trim());
-      }
-      if (username) info.push(`- **Username**: @${username}`);
-
-      if (info.length > 0) {
-        userInfoContext = "Current User Information:\n" + info.join('\n');
-      }
-    }
+    const delegation = inherited ?? rootDelegationContext(agent_id, user_id);
+    // Sub-runs have no user of their own; their usage is charged to the user of the outermost run
+    const usage_user_id = user_id ?? delegation.user_id;
 
     // 2. Metadata
     const placeholder_message_id = event.metadata?.placeholder_message_id != null ? Number(event.metadata?.placeholder_message_id) : undefined;
     let sessionId = event.metadata?.session_id != null ? String(event.metadata?.session_id) : undefined;
-    let metadataContext = "";
-    const rawContext = event.metadata?.context;
-    if (rawContext) {
-      if (typeof rawContext === 'string') {
-        // Case 1: The context is a simple string.
-        metadataContext = "Context:\n\n" +
-          rawContext;
-      } else if (typeof rawContext === 'object' && rawContext !== null) {
-        // Case 2 (Previous assumption): The context is an object map.
-        try {
-          const contextEntries = Object.entries(rawContext);
-          if (contextEntries.length > 0) {
-            metadataContext = "Context:\n\n" +
-              contextEntries
-                .map(([key, value]) => `- **${key.replace(/_/g, ' ')}**: ${value}`)
-                .join("\n");
-          }
-        } catch (error) {
-          console.error("Error processing event.metadata.context object:", error);
-        }
-      } else {
-        console.warn(`event.metadata.context found, but not a string or object: ${typeof rawContext}`);
-      }
-    }
 
     // 3. Messages
     for (const message of event.messages) {
@@ -155,10 +183,13 @@ export class Orchestrator {
 
       if (messageType == "text") {
         if (!message.text) throw new Error('Text Event missing text');
+        // Tags are for users; a delegated task is passed on verbatim so it cannot switch agents
+        if (delegation.depth > 0) continue;
         // --- Parse Message ---
-        const { cleanText, sessionCommand: sessionCommandValue, agent_idOverride: aIdOverwrite } = parseMessage(message.text);
+        const { cleanText, sessionCommand: sessionCommandValue, agent_idOverride: aIdOverwrite, approval } = parseMessage(message.text);
         message.text = cleanText;
         sessionCommand = sessionCommandValue || sessionCommand;
+        approvalDecision = approval ?? approvalDecision;
         if (aIdOverwrite) {
           console.log(`Agent Overwritten - Default: ${agent_id}, New: ${aIdOverwrite}`)
           agent_id = aIdOverwrite;
@@ -170,468 +201,171 @@ export class Orchestrator {
     }
 
     // --- Setup Agent ---
-    const agent = await this.agentFactory.get(agent_id);
+    const agent = await this.agentFactory.get(agent_id, event.metadata?.agent_version);
     if (!agent) throw new Error(`No agent found for id ${agent_id}`);
+
+    // --- Access control ---
+    // Delegated runs were authorised by the delegating agent's config
+    if (delegation.depth === 0) {
+      const access = checkAccess(agent.config.access, { user_id, chat_id, source, viaOverride: agent_idOverwritten });
+      const who = `user ${user_id ?? '-'}, chat ${chat_id ?? '-'}, source ${source ?? '-'}`;
+      trace.getActiveSpan()?.setAttributes({
+        'agent.access.allowed': access.allowed,
+        'agent.access.via_override': agent_idOverwritten,
+        ...(!access.allowed && { 'agent.access.reason': access.reason }),
+      });
+      if (!access.allowed) {
+        console.warn(`⛔ Access to agent ${agent_id} denied for ${who}: ${access.reason}`);
+        return this.refuse(event, agent.config.access?.denied_message ?? fallbackMessage('access_denied'), {
+          agent_id,
+          termination_reason: 'access_denied',
+          access_reason: access.reason,
+        });
+      }
+      if (agent.config.access) console.log(`🔓 Access to agent ${agent_id} granted for ${who}`);
+
+      // --- Rate limits and quotas ---
+      const limits = await checkEventLimits({ agent_id, user_id, config: agent.config.rate_limits }, this.store);
+      if (!limits.allowed) {
+        recordRejection(limits.limit);
+        trace.getActiveSpan()?.setAttributes({
+          'agent.rate_limit.limit': limits.limit,
+          'agent.rate_limit.retry_after_ms': limits.retryAfterMs,
+        });
+        console.warn(`🐢 Event for agent ${agent_id} refused for ${who}: ${limits.limit} exceeded, retry in ${limits.retryAfterMs}ms`);
+        const text = agent.config.rate_limits?.exceeded_message ?? fallbackMessage(limits.reason);
+        // Callers waiting on the HTTP response get a 429 instead of a reply
+        if (!event.recipients?.length) throw new RateLimitError(text, limits.limit, limits.retryAfterMs);
+        return this.refuse(event, text, {
+          agent_id,
+          termination_reason: limits.reason,
+          limit: limits.limit,
+          retry_after_ms: limits.retryAfterMs,
+        });
+      }
+    }
     const { model = 'gemini-2.5-flash', system_prompt = 'You are a helpful AI Agent.' } = agent.config;
+    // A closed session takes no more events; its conversation carries on in a fresh one
+    if (sessionId !== undefined && (await this.store.getSessionById(sessionId))?.status === 'closed') {
+      console.log(`Session ${sessionId} is closed. Starting a fresh session.`);
+      sessionId = undefined;
+    }
     if (sessionId === undefined) {
       sessionId = uuidv4();
     }
-    // --- Setup Session -- 
+    const sessionTimeoutHours: number = agent.config.session_timeout_hours ?? DEFAULT_SESSION_TIMEOUT_HOURS;
+    // --- Setup Session ---
+    // A fresh session (or a switch of agent within one) starts with a system message from the context providers
+    let bootstrapSession = false;
     if (user_id) {
-      switch (sessionCommand) {
-        case 'new':
-          console.log("Session command: NEW. Starting a fresh session.");
+      if (sessionCommand === 'new') {
+        console.log("Session command: NEW. Starting a fresh session.");
 
-          let graphitiResults: any = null;
-
-          if (is_bot === false) {
-            const name = first_name?.trim() || username?.trim();
-
-            await sendResponse(
-              event,
-              {
-                type: 'text',
-                text: `🔍 Retrieving context from previous interactions...`,
-                // placeholder_message_id will be automatically added if includePlaceholder is true
-              },
-              {
-                includePlaceholder: !!placeholder_message_id,
-                editMessage: true
-              }
-            );
-
-            if (name) {
-              try {
-                const searchResponse = await searchGraphiti({ text: name });
-                graphitiResults = searchResponse?.results || null;
-
-                const nodeCount = graphitiResults?.nodes?.length || 0;
-                const edgeCount = graphitiResults?.edges?.length || 0;
-                console.log(`Graphiti search found ${nodeCount} nodes and ${edgeCount} edges for "${name}".`);
-              } catch (error) {
-                console.error("Error searching Graphiti:", error);
-              }
-            } else {
-              console.log("⚠️ No valid name found — skipping Graphiti search.");
-            }
-          }
-
-          // Build readable summaries from the nodes and edges
-          let graphitiContext = "";
-
-          if (graphitiResults) {
-            const nodeSummaries =
-              graphitiResults.nodes
-                ?.slice(0, 5) // limit to top 5 nodes
-                .map((node: any) => `- ${node.name}: ${node.summary}`)
-                .join("\n") || "";
-
-            const edgeFacts =
-              graphitiResults.edges
-                ?.slice(0, 5)
-                .map((edge: any) => `- ${edge.fact}`)
-                .join("\n") || "";
-
-            if (nodeSummaries || edgeFacts) {
-              graphitiContext = `Here are relevant facts about ${first_name || user_id} from the previous conversations:\n\n` +
-                (nodeSummaries ? `🧠 Entities:\n${nodeSummaries}\n\n` : "") +
-                (edgeFacts ? `🔗 Relationships:\n${edgeFacts}\n\n` : "") +
-                (`If there are any location information provided, it is probably outdated and you should confirm the user's location if it is required.`);
-            }
+        const currentSession = await this.store.getLatestSessionByUser(user_id);
+        if (currentSession?.status === 'active') {
+          await this.store.updateSessionStatus(currentSession.id, 'closed');
+        }
+        if (currentSession?.id === sessionId) sessionId = uuidv4();
+        bootstrapSession = true;
+      } else {
+        console.log("Session command: None.");
+        // Existing Session; check it is still open and within the agent's rollover threshold
+        const latestSession = await this.store.getLatestSessionByUser(user_id);
+        const timeThreshold = sessionTimeoutHours * 60 * 60 * 1000;
+        const timeDifference = latestSession ? Date.now() - latestSession.last_active_at * 1000 : Infinity;
+
+        // A user with no open session also starts a fresh one
+        if (!latestSession || latestSession.status !== 'active' || timeDifference > timeThreshold) {
+          console.log(`No active session within ${sessionTimeoutHours} hours.`);
+          if (latestSession?.status === 'active') {
+            await this.store.updateSessionStatus(latestSession.id, 'expired');
           }
-          const systemMessage: SystemMessage = {
-            role: "system",
-            content: [
-              {
-                type: "text",
-                text: system_prompt,
-              },
-              ...(userInfoContext
-                ? [
-                  {
-                    type: "text" as const,
-                    text: userInfoContext,
-                  },
-                ]
-                : []),
-              ...(graphitiContext
-                ? [
-                  {
-                    type: "text" as const,
-                    text: graphitiContext,
-                  },
-                ]
-                : []),
-              ...(metadataContext
-                ? [
-                  {
-                    type: "text" as const,
-                    text: metadataContext,
-                  },
-                ]
-                : []),
-            ],
-          };
-          await tursoClient.logConversation({
+          bootstrapSession = true;
+        } else {
+          console.log(`Session within ${sessionTimeoutHours} hours.`);
+          sessionId = latestSession.id;
+          const rows = await this.store.getLatestConversationBySessionId(sessionId);
+          // Replay history within the model's budget, summarising older turns if needed
+          conversation.push(...await this.contextManager.buildHistory({
+            sessionId,
+            rows,
             model,
-            role: 'system',
-            message: JSON.stringify(systemMessage),
-            user_id: user_id,
-            chat_id: chat_id,
-            session_id: sessionId,
-            agent_id: agent_id,
-          });
-
-          conversation.push(systemMessage);
-          break;
-        case undefined:
-        // Fall-through: This case has no 'break;', so the execution falls directly
-        default:
-          console.log("Session command: None.");
-          // Existing Session; Fetch Conversation History
-          const rows = await tursoClient.getLatestConversationByuser_id(user_id);
-
-          // Verify if last message is within new session threshold
-          const latestMessage = rows[rows.length - 1];
-          const latestTimestamMs = Number(latestMessage.timestamp) * 1000;
-          const timeThreshold = THRESHOLD_HOURS * 60 * 60 * 1000; // 10,800,000 milliseconds
-          const timeDifference = Date.now() - latestTimestamMs;
-
-          if (timeDifference > timeThreshold) {
-            console.log(`Session older than ${THRESHOLD_HOURS} hours.`);
-            let graphitiResults: any = null;
-
-            if (is_bot === false) {
-              const name = first_name?.trim() || username?.trim();
-
-              await sendResponse(
-                event,
-                {
-                  type: 'text',
-                  text: `🔍 Retrieving context from previous interactions...`,
-                  // placeholder_message_id will be automatically added if includePlaceholder is true
-                },
-                {
-                  includePlaceholder: !!placeholder_message_id,
-                  editMessage: true
-                }
-              );
-
-              if (name) {
-                try {
-                  const searchResponse = await searchGraphiti({ text: name });
-                  graphitiResults = searchResponse?.results || null;
-
-                  const nodeCount = graphitiResults?.nodes?.length || 0;
-                  const edgeCount = graphitiResults?.edges?.length || 0;
-                  console.log(`Graphiti search found ${nodeCount} nodes and ${edgeCount} edges for "${name}".`);
-                } catch (error) {
-                  console.error("Error searching Graphiti:", error);
-                }
-              } else {
-                console.log("⚠️ No valid name found — skipping Graphiti search.");
-              }
-            }
-
-            // Build readable summaries from the nodes and edges
-            let graphitiContext = "";
-
-            if (graphitiResults) {
-              const nodeSummaries =
-                graphitiResults.nodes
-                  ?.slice(0, 5) // limit to top 5 nodes
-                  .map((node: any) => `- ${node.name}: ${node.summary}`)
-                  .join("\n") || "";
-
-              const edgeFacts =
-                graphitiResults.edges
-                  ?.slice(0, 5)
-                  .map((edge: any) => `- ${edge.fact}`)
-                  .join("\n") || "";
-
-              if (nodeSummaries || edgeFacts) {
-                graphitiContext = `Here are relevant facts about ${first_name || user_id} from the Graphiti knowledge graph:\n\n` +
-                  (nodeSummaries ? `🧠 Entities:\n${nodeSummaries}\n\n` : "") +
-                  (edgeFacts ? `🔗 Relationships:\n${edgeFacts}\n\n` : "") +
-                  (`If there are any location information provided, it is probably outdated and you should confirm the user's location if it is required.`);
-              }
-            }
-
-            const systemMessage: SystemMessage = {
-              role: "system",
-              content: [
-                {
-                  type: "text",
-                  text: system_prompt,
-                },
-                ...(userInfoContext
-                  ? [
-                    {
-                      type: "text" as const,
-                      text: userInfoContext,
-                    },
-                  ]
-                  : []),
-                ...(graphitiContext
-                  ? [
-                    {
-                      type: "text" as const,
-                      text: graphitiContext,
-                    },
-                  ]
-                  : []),
-                ...(metadataContext
-                  ? [
-                    {
-                      type: "text" as const,
-                      text: metadataContext,
-                    },
-                  ]
-                  : []),
-              ],
-            };
-
-            await tursoClient.logConversation({
-              model,
-              role: 'system',
-              message: JSON.stringify(systemMessage),
-              user_id: user_id,
-              chat_id: chat_id,
-              session_id: sessionId,
-              agent_id: agent_id,
-            });
-
-            conversation.push(systemMessage);
-          } else {
-            console.log(`Session within ${THRESHOLD_HOURS} hours.`);
-            sessionId = String(latestMessage.session_id); // use Session ID found on message.
-            for (const r of rows) {
-              const dbRow = r as unknown as UntypedDbRow;
-
-              try {
-                if (typeof dbRow.message === 'string') {
-                  const messageObject: Message = JSON.parse(dbRow.message);
-
-                  conversation.push(messageObject);
-                } else {
-                  console.warn('Row found without a valid "message" string property.');
-                }
-              } catch (error) {
-                console.error('Failed to parse message from database.', error, 'Row:', dbRow);
-              }
-            }
-            // User ask to chat with new Agent within the session
-            if (agent_idOverwritten) {
-              let graphitiResults: any = null;
-
-              if (is_bot === false) {
-                const name = first_name?.trim() || username?.trim();
-
-                await sendResponse(
-                  event,
-                  {
-                    type: 'text',
-                    text: `🔍 Retrieving context from previous interactions...`,
-                    // placeholder_message_id will be automatically added if includePlaceholder is true
-                  },
-                  {
-                    includePlaceholder: !!placeholder_message_id,
-                    editMessage: true
-                  }
-                );
-
-                if (name) {
-                  try {
-                    const searchResponse = await searchGraphiti({ text: name });
-                    graphitiResults = searchResponse?.results || null;
-
-                    const nodeCount = graphitiResults?.nodes?.length || 0;
-                    const edgeCount = graphitiResults?.edges?.length || 0;
-                    console.log(`Graphiti search found ${nodeCount} nodes and ${edgeCount} edges for "${name}".`);
-                  } catch (error) {
-                    console.error("Error searching Graphiti:", error);
-                  }
-                } else {
-                  console.log("⚠️ No valid name found — skipping Graphiti search.");
-                }
-              }
-
-              // Build readable summaries from the nodes and edges
-              let graphitiContext = "";
-
-              if (graphitiResults) {
-                const nodeSummaries =
-                  graphitiResults.nodes
-                    ?.slice(0, 5) // limit to top 5 nodes
-                    .map((node: any) => `- ${node.name}: ${node.summary}`)
-                    .join("\n") || "";
-
-                const edgeFacts =
-                  graphitiResults.edges
-                    ?.slice(0, 5)
-                    .map((edge: any) => `- ${edge.fact}`)
-                    .join("\n") || "";
-
-                if (nodeSummaries || edgeFacts) {
-                  graphitiContext = `Here are relevant facts about ${first_name || user_id} from the Graphiti knowledge graph:\n\n` +
-                    (nodeSummaries ? `🧠 Entities:\n${nodeSummaries}\n\n` : "") +
-                    (edgeFacts ? `🔗 Relationships:\n${edgeFacts}\n\n` : "") +
-                    (`If there are any location information provided, it is probably outdated and you should confirm the user's location if it is required.`);
-                }
-              }
-
-              const systemMessage: SystemMessage = {
-                role: "system",
-                content: [
-                  {
-                    type: "text",
-                    text: system_prompt,
-                  },
-                  ...(userInfoContext
-                    ? [
-                      {
-                        type: "text" as const,
-                        text: userInfoContext,
-                      },
-                    ]
-                    : []),
-                  ...(graphitiContext
-                    ? [
-                      {
-                        type: "text" as const,
-                        text: graphitiContext,
-                      },
-                    ]
-                    : []),
-                  ...(metadataContext
-                    ? [
-                      {
-                        type: "text" as const,
-                        text: metadataContext,
-                      },
-                    ]
-                    : []),
-                ],
-              };
-              await tursoClient.logConversation({
-                model,
-                role: 'system',
-                message: JSON.stringify(systemMessage),
-                user_id: user_id,
-                chat_id: chat_id,
-                session_id: sessionId,
-                agent_id: agent_id,
-              });
-
-              conversation.push(systemMessage);
-            }
-          }
+            config: agent.config.context,
+            onUsage: (usage, summaryModel) => { summaryUsage = { usage, model: summaryModel }; },
+          }));
+          // User ask to chat with new Agent within the session
+          bootstrapSession = agent_idOverwritten;
+        }
       }
-    }
-    else {
-      if (sessionId === undefined) {
-        const systemMessage: SystemMessage = {
-          role: "system",
-          content: [
-            {
-              type: "text",
-              text: system_prompt,
-            },
-            ...(metadataContext
-              ? [
-                {
-                  type: "text" as const,
-                  text: metadataContext,
-                },
-              ]
-              : []),
-          ],
-        };
-        await tursoClient.logConversation({
+    } else {
+      const rows = await this.store.getLatestConversationBySessionId(sessionId);
+      if (rows.length === 0) {
+        bootstrapSession = true;
+      } else {
+        conversation.push(...await this.contextManager.buildHistory({
+          sessionId,
+          rows,
           model,
-          role: 'system',
-          message: JSON.stringify(systemMessage),
-          session_id: sessionId,
-          agent_id: agent_id,
-        });
+          config: agent.config.context,
+          onUsage: (usage, summaryModel) => { summaryUsage = { usage, model: summaryModel }; },
+        }));
+      }
+    }
 
-        conversation.push(systemMessage);
-      } else {
-        const rows = await tursoClient.getLatestConversationBySessionId(sessionId)
-        if (rows.length === 0) {
-          const systemMessage: SystemMessage = {
-            role: "system",
-            content: [
-              {
-                type: "text",
-                text: system_prompt,
-              },
-              ...(metadataContext
-                ? [
-                  {
-                    type: "text" as const,
-                    text: metadataContext,
-                  },
-                ]
-                : []),
-            ],
-          };
-          await tursoClient.logConversation({
-            model,
-            role: 'system',
-            message: JSON.stringify(systemMessage),
-            session_id: sessionId,
-            agent_id: agent_id,
-          });
+    const progress = new ProgressReporter(event, agent.config.progress);
 
-          conversation.push(systemMessage);
-        } else {
-          for (const r of rows) {
-            const dbRow = r as unknown as UntypedDbRow;
-
-            try {
-              if (typeof dbRow.message === 'string') {
-                const messageObject: Message = JSON.parse(dbRow.message);
-
-                conversation.push(messageObject);
-              } else {
-                console.warn('Row found without a valid "message" string property.');
-              }
-            } catch (error) {
-              console.error('Failed to parse message from database.', error, 'Row:', dbRow);
-            }
-          }
-        }
+    const contextRequest: ContextRequest = {
+      event,
+      agentId: agent_id,
+      systemPrompt: system_prompt,
+      user: { user_id, chat_id, first_name, last_name, username },
+      isBot: is_bot,
+      notify: (stage) => progress.report(stage),
+    };
 
+    if (bootstrapSession) {
+      const systemMessage: SystemMessage = {
+        role: "system",
+        content: await this.contextBuilder.build('system', contextRequest, agent.config.context_providers),
+      };
+      await this.store.logConversation({
+        model,
+        role: 'system',
+        message: JSON.stringify(systemMessage),
+        user_id: usage_user_id,
+        chat_id: chat_id,
+        session_id: sessionId,
+        agent_id: agent_id,
+      });
 
-      }
+      conversation.push(systemMessage);
     }
-    const userMessage: UserMessage = convertEventToUserMessage(event);
-
-    await tursoClient.logConversation({
-      model,
-      role: 'system',
-      message: JSON.stringify(userMessage),
-      user_id: user_id,
-      chat_id: chat_id,
-      session_id: sessionId,
-      agent_id: agent_id,
+    await this.ensureSession(sessionId, {
+      user_id,
+      chat_id,
+      agent_id,
+      title: event.messages.find(m => m.text?.trim())?.text,
     });
-    conversation.push(userMessage);
 
-    // --- LLM loop ---
-    let finalAssistantText = '';
     let firstOutgoingMessageSent = false;
 
-    // Fetch MCP tools
-    const allTools = await this.mcpClient.listTools();
+    // Fetch tools from every MCP server configured on the agent, filtered by each server's allowed tools
+    const toolRegistry = await ToolRegistry.fromServers(agent.config.mcp_servers ?? []);
+
+    // --- Built-in orchestrator tools ---
+    const delegationConfig = agent.config.delegation;
+    if (delegationConfig && canDelegate(delegationConfig, delegation)) {
+      const parentSessionId = sessionId;
+      toolRegistry.registerBuiltin(
+        delegateToolDefinition(delegationConfig),
+        (args, signal) => this.delegate(event, delegation, delegationConfig, { fromAgentId: agent_id, parentSessionId, args, signal })
+      );
+    }
+    let llmTools: any[] = toolRegistry.definitions;
 
     // Get allowed tools from the agent configuration
     const allowedTools = agent.config.mcp_servers?.flatMap(server => server.allowed_tools) ?? [];
 
-    // Filter the MCP tool list based on allowed tools
-    let llmTools = allTools.filter(tool => allowedTools.includes(tool.name));
-
     // --- Add built-in Google tools if specified ---
     const googleToolMap: Record<string, (event: Event) => any> = {
       "google_search": () => ({ googleSearch: {} }),
@@ -648,125 +382,244 @@ export class Orchestrator {
       llmTools = [...llmTools, ...extraTools];
     }
 
-    while (true) {
-      console.log(`========\nConversation to LLM\n: ${JSON.stringify(conversation)}`);
-      const response: any = await this.llm.getLLMResponse({ model, conversation, tools: llmTools });
-      console.log(`========\nResponse from LLM\n: ${JSON.stringify(response)}`);
-      const choice = response?.choices?.[0];
-      const responseMessageRaw = choice.message;
-      const sanitizedMessage = sanitizeResponseMessage(responseMessageRaw);
-      const responseMessage: AssistantMessage = sanitizedMessage as AssistantMessage;
-
-      const finishReason = choice.finish_reason;
-      const usage = response?.usage;
-      const completionTokens = usage.completion_tokens;
-      const promptTokens = usage.prompt_tokens;
-      const totalTokens = usage.total_tokens;
-
-      const logData = {
+    // --- Tool approvals ---
+    // A pending approval is settled before anything else is added to the session,
+    // so its tool results directly follow the assistant turn that asked for them
+    const approvalTurn = await this.resolvePendingApproval(sessionId, approvalDecision, {
+      userId: user_id,
+      agentId: agent_id,
+      toolRegistry,
+      toolExecution: agent.config.tool_execution,
+      log: (message) => this.store.logConversation({
         model,
-        role: responseMessage.role,
-        message: JSON.stringify(responseMessage),
-        finish_reason: finishReason,
-        user_id: user_id,
+        role: 'tool',
+        message: JSON.stringify(message),
+        user_id: usage_user_id,
         chat_id: chat_id,
         session_id: sessionId,
         agent_id: agent_id,
-        completion_tokens: completionTokens,
-        prompt_tokens: promptTokens,
-        total_tokens: totalTokens
-      };
+      }),
+    });
+    conversation.push(...approvalTurn.toolMessages);
 
-      await tursoClient.logConversation(logData);
-      console.log("Saved assistant response to Database")
+    const eventMessage = convertEventToUserMessage(event);
+    const userMessage: UserMessage = {
+      ...eventMessage,
+      content: [...await this.contextBuilder.build('user', contextRequest, agent.config.context_providers), ...eventMessage.content],
+    };
 
-      conversation.push(responseMessage);
+    // An event that only answers an approval prompt adds no user message
+    const answersApprovalOnly = approvalDecision != null && eventMessage.content.length === 0;
+    if (!answersApprovalOnly) {
+      await this.store.logConversation({
+        model,
+        role: 'user',
+        message: JSON.stringify(userMessage),
+        user_id: usage_user_id,
+        chat_id: chat_id,
+        session_id: sessionId,
+        agent_id: agent_id,
+      });
+      conversation.push(userMessage);
+    }
 
-      const toolCalls = (responseMessage as AssistantMessage).tool_calls ?? [];
-      console.log(`🧠 Detected ${toolCalls.length} tool call(s)`);
+    // --- LLM loop ---
 
-      if (toolCalls.length > 0) {
+    const responseFormat = resolveResponseFormat(agent.config.response_format, event.metadata);
+    const maxStructuredRetries = responseFormat?.max_retries ?? DEFAULT_STRUCTURED_OUTPUT_RETRIES;
+    let structuredRetries = 0;
+    let structuredData: unknown;
+
+    // Stream into the placeholder message when there is one to edit, unless the agent opts out.
+    // Structured answers are never streamed to the user, since they are JSON.
+    const canEditPlaceholder = is_bot === false && placeholder_message_id != null && !!event.recipients?.length;
+    const streamEdits = canEditPlaceholder && agent.config.streaming !== false && !responseFormat;
+    const useStreaming = streamEdits || options.onDelta != null;
+
+    const loopGuard = new LoopGuard(agent.config.limits);
+    let streamedToUser = false;
+    let pendingApproval: ToolApproval | undefined;
+    let outcome: Extract<TurnOutcome, { action: 'reply' }> | undefined;
+
+    // Nothing to do for an answer to a prompt that is no longer pending
+    if (answersApprovalOnly && !approvalTurn.answered) {
+      outcome = { action: 'reply', reason: 'completed', text: APPROVAL_NOT_PENDING_MESSAGE, fallback: true };
+    }
 
-        if (is_bot === false) {
-          await sendResponse(
-            event,
-            {
-              type: 'text',
-              text: `🛠 Resolving ${toolCalls.length} tool call(s)`,
-              // placeholder_message_id will be automatically added if includePlaceholder is true
-            },
-            {
-              includePlaceholder: !!placeholder_message_id,
-              editMessage: true
-            }
-          );
+    try {
+      while (!outcome) {
+        options.signal?.throwIfAborted();
+        const turnLimit = loopGuard.checkBeforeTurn();
+        if (turnLimit) {
+          outcome = { action: 'reply', reason: turnLimit, text: fallbackMessage(turnLimit), fallback: true };
+          break;
         }
 
-        for (const call of toolCalls) {
-          const { id: tool_call_id, function: fn } = call;
-          const { name, arguments: argsRaw } = fn;
+        console.log(`========\nConversation to LLM\n: ${JSON.stringify(conversation)}`);
+        let response: any;
+        streamedToUser = false;
+
+        if (useStreaming) {
+          // Streamed edits supersede any progress message still waiting to go out
+          if (streamEdits) await progress.settle();
+          let streamedText = '';
+          const editor = streamEdits
+            ? new ThrottledMessageEditor(
+              async text => { await sendResponse(event, { type: 'text', text }, { includePlaceholder: true, editMessage: true }); },
+              agent.config.stream_edit_interval_ms
+            )
+            : undefined;
 
-          // Safely parse arguments
-          let parsedArgs: Record<string, any> = {};
           try {
-            parsedArgs = JSON.parse(argsRaw || '{}');
-          } catch (err) {
-            console.error(`❌ Failed to parse tool arguments for ${name}:`, argsRaw);
+            response = await this.llm.streamLLMResponse({
+              model,
+              fallbackModels: agent.config.fallback_models,
+              conversation,
+              tools: llmTools,
+              responseFormat,
+              onDelta: (delta) => {
+                options.onDelta?.(delta);
+                if (delta.content) {
+                  streamedText += delta.content;
+                  editor?.update(`${streamedText} ▌`);
+                }
+              },
+            });
+          } finally {
+            await editor?.close();
           }
+          streamedToUser = editor?.hasSent ?? false;
+        } else {
+          response = await this.llm.getLLMResponse({
+            model,
+            fallbackModels: agent.config.fallback_models,
+            conversation,
+            tools: llmTools,
+            responseFormat,
+          });
+        }
+        console.log(`========\nResponse from LLM\n: ${JSON.stringify(response)}`);
+        const choice = response?.choices?.[0];
+        const responseMessageRaw = choice.message;
+        const sanitizedMessage = sanitizeResponseMessage(responseMessageRaw);
+        const responseMessage: AssistantMessage = sanitizedMessage as AssistantMessage;
+
+        const finishReason = choice.finish_reason;
+        const usage = response?.usage ?? {};
+        loopGuard.recordTurn(usage);
+
+        const toolCalls = (responseMessage as AssistantMessage).tool_calls ?? [];
+        console.log(`🧠 Detected ${toolCalls.length} tool call(s)`);
+
+        let turnOutcome = loopGuard.evaluate({
+          finishReason,
+          content: responseMessage.content,
+          toolCallCount: toolCalls.length,
+        });
 
-          // --- ARGUMENT CLEANUP LOGIC ---
-          const cleanedArgs: Record<string, any> = {};
-          for (const key in parsedArgs) {
-            const value = parsedArgs[key];
-            // Only include keys if the value is not undefined, not null, and not an empty string
-            if (value !== undefined && value !== null && value !== '') {
-              cleanedArgs[key] = value;
-            }
+        // --- Structured output: validate the final answer, re-prompting while retries remain ---
+        let structuredRepair: string | null = null;
+        if (responseFormat && turnOutcome.action === 'reply' && turnOutcome.reason === 'completed') {
+          const parsed = parseStructuredOutput(responseMessage.content, responseFormat.schema);
+          if (parsed.ok) {
+            structuredData = parsed.data;
+          } else if (structuredRetries < maxStructuredRetries) {
+            structuredRetries++;
+            structuredRepair = repairPrompt(parsed.error);
+            console.warn(`⚠️ Structured output invalid (retry ${structuredRetries}/${maxStructuredRetries}): ${parsed.error}`);
+          } else {
+            console.warn(`⚠️ Structured output invalid, giving up: ${parsed.error}`);
+            turnOutcome = {
+              action: 'reply',
+              reason: 'invalid_structured_output',
+              text: fallbackMessage('invalid_structured_output'),
+              fallback: true,
+            };
           }
-          console.log(`🧼 Cleaned tool arguments for ${name}: ${JSON.stringify(cleanedArgs)}`);
-          // --- END ARGUMENT CLEANUP LOGIC ---
+        }
 
-          // --- Call MCP Tool ---
-          let toolResult: any;
-          try {
-            // Pass the cleanedArgs to the tool client
-            toolResult = await this.mcpClient.callTool({
-              name,
-              arguments: cleanedArgs,
-            });
-            console.log(`🧰 Tool '${name}' executed successfully`, toolResult);
-          } catch (err) {
-            console.error(`❌ Tool '${name}' failed:`, err);
-            toolResult = { error: String(err) };
-          }
+        const logData = {
+          // The model that answered, which may be one of the agent's fallbacks
+          model: response?.model_used ?? model,
+          role: responseMessage.role,
+          message: JSON.stringify(responseMessage),
+          finish_reason: finishReason,
+          user_id: usage_user_id,
+          chat_id: chat_id,
+          session_id: sessionId,
+          agent_id: agent_id,
+          completion_tokens: addTokens(usage.completion_tokens, summaryUsage?.usage?.completion_tokens),
+          prompt_tokens: addTokens(usage.prompt_tokens, summaryUsage?.usage?.prompt_tokens),
+          total_tokens: addTokens(usage.total_tokens, summaryUsage?.usage?.total_tokens),
+          termination_reason: turnOutcome.action === 'reply' && !turnOutcome.fallback && !structuredRepair ? turnOutcome.reason : null,
+        };
 
-          // --- Extract the relevant content/messages array ---
-          let contentArray: any[] = [];
+        await this.store.logConversation(logData);
+        summaryUsage = null;
+        console.log("Saved assistant response to Database")
 
-          if (toolResult?.result?.content) {
-            // Case 1: result.content
-            contentArray = toolResult.result.content;
-          } else if (toolResult?.messages) {
-            // Case 2: messages
-            contentArray = toolResult.messages;
-          } else {
-            // Fallback if neither exists
-            contentArray = [toolResult];
+        conversation.push(responseMessage);
+
+        if (structuredRepair) {
+          const repairMessage: UserMessage = { role: 'user', content: [{ type: 'text', text: structuredRepair }] };
+          await this.store.logConversation({
+            model,
+            role: 'user',
+            message: JSON.stringify(repairMessage),
+            user_id: usage_user_id,
+            chat_id: chat_id,
+            session_id: sessionId,
+            agent_id: agent_id,
+          });
+          conversation.push(repairMessage);
+          continue;
+        }
+
+        if (turnOutcome.action === 'reply') {
+          if (turnOutcome.skipToolCalls) {
+            // Every tool call needs a result before the session can be replayed to the LLM
+            for (const call of toolCalls) {
+              const toolMessage: ToolMessage = {
+                role: "tool",
+                content: JSON.stringify([{ error: { type: turnOutcome.reason, message: 'Tool call not executed: agent limit reached.' } }]),
+                tool_call_id: call.id,
+              };
+              await this.store.logConversation({
+                model,
+                role: 'tool',
+                message: JSON.stringify(toolMessage),
+                user_id: usage_user_id,
+                chat_id: chat_id,
+                session_id: sessionId,
+                agent_id: agent_id,
+              });
+              conversation.push(toolMessage);
+            }
           }
+          outcome = turnOutcome;
+          break;
+        }
+
+        // Calls to tools that need the user's approval are held back, or refused when there is no user to ask
+        const gatedCalls = toolCalls.filter(call => toolRegistry.requiresConfirmation(call.function.name));
+        const runnableCalls = toolCalls.filter(call => !gatedCalls.includes(call));
+        const canAskApproval = is_bot === false;
 
-          // --- Build ToolMessage ---
-          const toolMessage: ToolMessage = {
-            role: "tool",
-            content: JSON.stringify(contentArray, null, 2),
-            tool_call_id,
-          };
+        if (runnableCalls.length) await progress.reportTools(runnableCalls.map(call => call.function.name));
 
+        // Run this turn's tool calls concurrently; results come back in tool_call_id order
+        const toolMessages = runnableCalls.length
+          ? await executeToolCalls(runnableCalls, toolRegistry, agent.config.tool_execution, options.signal)
+          : [];
+        if (!canAskApproval) toolMessages.push(...gatedCalls.map(call => refusedToolMessage(call, 'unavailable')));
+
+        for (const toolMessage of toolMessages) {
           // --- Log into DB ---
-          await tursoClient.logConversation({
+          await this.store.logConversation({
             model,
             role: 'tool',
             message: JSON.stringify(toolMessage),
-            user_id: user_id,
+            user_id: usage_user_id,
             chat_id: chat_id,
             session_id: sessionId,
             agent_id: agent_id,
@@ -774,95 +627,313 @@ export class Orchestrator {
 
           conversation.push(toolMessage);
         }
-      }
-      // --- Final assistant text ---
-      else if (finishReason === 'stop' && responseMessage.content !== null) {
-        if (is_bot === false) {
-          await sendResponse(
-            event,
-            {
-              type: 'text',
-              text: `🤔 Thinking it through and preparing your reply...`,
-              // placeholder_message_id will be automatically added if includePlaceholder is true
-            },
-            {
-              includePlaceholder: !!placeholder_message_id,
-              editMessage: true
-            }
-          );
+
+        // Pause until the user answers; the held-back calls get their results when the run resumes
+        if (gatedCalls.length && canAskApproval) {
+          pendingApproval = await this.approvals.create({
+            id: uuidv4(),
+            session_id: sessionId,
+            agent_id,
+            user_id: user_id ?? null,
+            tool_calls: gatedCalls,
+            expires_at: Date.now() + CONFIG.TOOL_APPROVAL_TTL_MS,
+          });
+          console.log(`✋ Approval ${pendingApproval.id} requested for ${gatedCalls.map(call => call.function.name).join(', ')}`);
+          outcome = { action: 'reply', reason: 'awaiting_approval', text: approvalPrompt(pendingApproval), fallback: false };
+          break;
         }
+      }
+    } finally {
+      // Summary tokens no LLM turn carried, e.g. when the provider failed
+      if (summaryUsage) {
+        await this.logSummaryUsage(summaryUsage, { user_id: usage_user_id, chat_id, session_id: sessionId, agent_id });
+        summaryUsage = null;
+      }
+    }
+
+    // --- Termination ---
+    console.log(`🏁 Agent loop ended: ${outcome.reason} (turns: ${loopGuard.turns}, tool calls: ${loopGuard.toolCalls}, tokens: ${loopGuard.totalTokens})`);
+    trace.getActiveSpan()?.setAttributes({
+      'agent.termination_reason': outcome.reason,
+      'agent.llm_turns': loopGuard.turns,
+      'agent.tool_calls': loopGuard.toolCalls,
+      'agent.total_tokens': loopGuard.totalTokens,
+    });
 
-        finalAssistantText = responseMessage.content;
+    if (outcome.fallback) {
+      // Keep the fallback in history so a resumed session sees what the user was told
+      const fallbackMessage: AssistantMessage = { role: 'assistant', content: outcome.text };
+      await this.store.logConversation({
+        model,
+        role: 'assistant',
+        message: JSON.stringify(fallbackMessage),
+        finish_reason: 'fallback',
+        user_id: usage_user_id,
+        chat_id: chat_id,
+        session_id: sessionId,
+        agent_id: agent_id,
+        termination_reason: outcome.reason,
+      });
+      conversation.push(fallbackMessage);
+    }
 
-        const outgoingMessages: ResponseMessage[] = [
-          { type: 'text', text: finalAssistantText }
-        ];
+    // --- Final assistant text ---
+    // Skip the status edit if the reply has already been streamed into the placeholder
+    if (!streamedToUser && !outcome.fallback && !pendingApproval) {
+      await progress.report('thinking');
+    }
+    await progress.settle();
+
+    const finalAssistantText = outcome.text;
+
+    const outgoingMessages: ResponseMessage[] = structuredData !== undefined
+      ? [{ type: 'json', text: JSON.stringify(structuredData), data: structuredData }]
+      : [{
+        type: 'text',
+        text: finalAssistantText,
+        ...(pendingApproval ? {
+          approval: {
+            id: pendingApproval.id,
+            tools: pendingApproval.tool_calls.map(call => call.function.name),
+            expires_at: pendingApproval.expires_at,
+          },
+        } : {}),
+      }];
+
+    if (hasAudioInput && structuredData === undefined) {
+      try {
+        const voice = agent.config.gemini_voice;
+        const ttsResponse: any = await this.llm.textToAudio(finalAssistantText, undefined, voice);
+
+        const choice = ttsResponse.choices?.[0];
+        const audioData = choice?.message?.audio?.data;
+        const audioFormat = choice?.message?.audio?.format || 'mp3';
+
+        if (!audioData) throw new Error('[Orchestrator] TTS response missing audio data');
+
+        outgoingMessages.push({
+          type: 'audio',
+          audio: { data: audioData, format: audioFormat }
+        });
+      } catch (err) {
+        console.error('❌ TTS failed, sending text only:', err);
+      }
+    }
 
-        if (hasAudioInput) {
-          try {
-            const voice = agent.config.geminiVoice;
-            const ttsResponse: any = await this.llm.textToAudio(finalAssistantText, undefined, voice);
+    const hasRecipients = event.recipients && event.recipients.length > 0;
+    if (hasRecipients) {
+      const deliveries = await sendResponse(event, outgoingMessages, {
+        includePlaceholder: !firstOutgoingMessageSent && placeholder_message_id != null
+      });
 
-            const choice = ttsResponse.choices?.[0];
-            const audioData = choice?.message?.audio?.data;
-            const audioFormat = choice?.message?.audio?.format || 'mp3';
+      firstOutgoingMessageSent = true;
 
-            if (!audioData) throw new Error('[Orchestrator] TTS response missing audio data');
+      // -- Graphiti --
+      if (is_bot === false) {
+        let message: string = "";
+        if (hasAudioInput) {
+          try {
+            const audioContent = userMessage.content.find(c => c.type === 'input_audio')?.input_audio;
 
-            outgoingMessages.push({
-              type: 'audio',
-              audio: { data: audioData, format: audioFormat }
-            });
+            if (audioContent?.data) {
+              message = await this.llm.audioToText(audioContent.data, audioContent.format);
+            }
           } catch (err) {
-            console.error('❌ TTS failed, sending text only:', err);
+            console.error('❌ STT failed, not sending to Graphiti', err);
           }
+        } else {
+          message = userMessage.content.find(c => c.type === 'text')?.text ?? "";
+        }
+        await sendGraphitiEpisode({
+          sessionId: sessionId,
+          messageCount: conversation.length,
+          firstName: first_name,
+          username: username,
+          agentId: agent_id,
+          userMessage: message,
+        });
+      }
+      return {
+        id: event.id,
+        metadata: {
+          agent_id,
+          session_id: sessionId,
+          termination_reason: outcome.reason,
+          deliveries
+        }
+      };
+    } else {
+      return {
+        id: event.id,
+        messages: outgoingMessages,
+        metadata: {
+          agent_id,
+          session_id: sessionId,
+          termination_reason: outcome.reason
         }
+      };
+    }
+  }
 
-        const hasRecipients = event.recipients && event.recipients.length > 0;
-        if (hasRecipients) {
-          await sendResponse(event, outgoingMessages, {
-            includePlaceholder: !firstOutgoingMessageSent && placeholder_message_id != null
-          });
+  /**
+   * Log what summarising a session's history cost as a row of its own. Failing
+   * to do so is logged rather than thrown, so it cannot hide the run's own error.
+   */
+  private async logSummaryUsage(
+    { usage, model }: { usage: TokenUsage; model: string },
+    row: Pick<LogConversationParams, 'user_id' | 'chat_id' | 'session_id' | 'agent_id'>
+  ) {
+    const message: SystemMessage = { role: 'system', content: [{ type: 'text', text: 'Earlier conversation summarised.' }] };
+    await this.store.logConversation({
+      ...row,
+      model,
+      role: 'system',
+      message: JSON.stringify(message),
+      finish_reason: SUMMARY_USAGE_FINISH_REASON,
+      completion_tokens: usage?.completion_tokens,
+      prompt_tokens: usage?.prompt_tokens,
+      total_tokens: usage?.total_tokens,
+    }).catch(err => console.error('❌ Failed to log summary token usage:', err));
+  }
 
-          firstOutgoingMessageSent = true;
+  /**
+   * Answer an event the agent will not run, e.g. a refused sender. Nothing is
+   * stored in any session.
+   */
+  private async refuse(event: Event, text: string, metadata: { agent_id: string; termination_reason: string; [key: string]: unknown }) {
+    const messages: ResponseMessage[] = [{ type: 'text', text }];
 
-          // -- Graphiti --
-          if (is_bot === false) {
-            let message: string = "";
-            if (hasAudioInput) {
-              try {
-                const audioContent = userMessage.content.find(c => c.type === 'input_audio')?.input_audio;
+    if (!event.recipients?.length) return { id: event.id, messages, metadata };
+    const deliveries = await sendResponse(event, messages, {
+      includePlaceholder: event.metadata?.placeholder_message_id != null
+    });
+    return { id: event.id, metadata: { ...metadata, deliveries } };
+  }
 
-                if (audioContent?.data) {
-                  message = await this.llm.audioToText(audioContent.data, audioContent.format);
-                }
-              } catch (err) {
-                console.error('❌ STT failed, not sending to Graphiti', err);
-              }
-            } else {
-              message = userMessage.content.find(c => c.type === 'text')?.text ?? "";
-            }
-            await sendGraphitiEpisode({
-              sessionId: sessionId,
-              messageCount: conversation.length,
-              firstName: first_name,
-              username: username,
-              agentId: agent_id,
-              userMessage: message,
-            });
-          }
-          return
-        } else {
-          return {
-            id: event.id,
-            messages: outgoingMessages,
-            metadata: {
-              agent_id,
-              session_id: sessionId
-            }
-          };
-        }
+  /**
+   * Settle the session's pending tool approval, if any: run the held-back calls
+   * when this event approves them, otherwise tell the model why they did not run.
+   * `answered` is whether the event's decision was for that approval. Only the
+   * user the approval was asked of can approve it, and approved calls run with
+   * the tools of the agent that made them.
+   */
+  private async resolvePendingApproval(
+    sessionId: string,
+    decision: ApprovalDecision | undefined,
+    { userId, agentId, toolRegistry, toolExecution, log }: {
+      userId?: string;
+      agentId: string;
+      toolRegistry: ToolRegistry;
+      toolExecution?: ToolExecutionConfig;
+      log: (message: ToolMessage) => Promise<unknown>;
+    }
+  ): Promise<{ toolMessages: ToolMessage[]; answered: boolean }> {
+    const pending = await this.approvals.getPending(sessionId);
+    if (!pending) {
+      if (decision) console.warn(`⚠️ Approval ${decision.id} is not pending in session ${sessionId}`);
+      return { toolMessages: [], answered: false };
+    }
+
+    if (decision && (userId ?? null) !== pending.user_id) {
+      console.warn(`⚠️ Approval ${decision.id} was asked of user ${pending.user_id ?? '-'}, ignoring the decision of ${userId ?? '-'}`);
+      decision = undefined;
+    }
+    const answered = decision?.id === pending.id;
+    const status = pending.expires_at <= Date.now() ? 'expired'
+      : answered && decision!.decision === 'approve' ? 'approved'
+        : 'denied';
+    // Another event may have settled it first
+    if (!await this.approvals.resolve(pending.id, status)) return { toolMessages: [], answered: false };
+
+    console.log(`✋ Approval ${pending.id} ${status}`);
+    trace.getActiveSpan()?.setAttributes({ 'agent.approval_id': pending.id, 'agent.approval_status': status });
+
+    let tools = { registry: toolRegistry, execution: toolExecution };
+    // An [a:] tag may have switched agents since the calls were held back
+    if (status === 'approved' && pending.agent_id !== agentId) {
+      const owner = await this.agentFactory.get(pending.agent_id);
+      tools = {
+        registry: await ToolRegistry.fromServers(owner?.config.mcp_servers ?? []),
+        execution: owner?.config.tool_execution,
+      };
+    }
+
+    const toolMessages = status === 'approved'
+      ? await executeToolCalls(pending.tool_calls, tools.registry, tools.execution)
+      : pending.tool_calls.map(call => refusedToolMessage(call, status === 'expired' ? 'expired' : answered ? 'denied' : 'superseded'));
+    for (const message of toolMessages) await log(message);
+    return { toolMessages, answered };
+  }
+
+  /**
+   * Run a task on another agent as a nested event, under a child session of the
+   * current one, and return its response so the caller's tool result is its final answer.
+   */
+  private async delegate(
+    parent: Event,
+    ctx: DelegationContext,
+    config: DelegationConfig,
+    { fromAgentId, parentSessionId, args, signal }: {
+      fromAgentId: string;
+      parentSessionId: string;
+      args: Record<string, any>;
+      signal?: AbortSignal;
+    }
+  ) {
+    const toAgentId = String(args.agent_id ?? '');
+    const task = String(args.task ?? '').trim();
+    if (!config.allowed_agents.includes(toAgentId)) throw new Error(`Agent '${fromAgentId}' may not delegate to '${toAgentId}'`);
+    if (ctx.chain.includes(toAgentId)) throw new Error(`Delegation cycle: ${[...ctx.chain, toAgentId].join(' → ')}`);
+    if (!task) throw new Error(`${DELEGATE_TOOL_NAME} needs a task`);
+
+    const maxDepth = Math.min(config.max_depth ?? 1, ctx.max_depth, MAX_DELEGATION_DEPTH);
+    const { event: child, context: childContext } = buildDelegatedEvent(parent, ctx, { fromAgentId, toAgentId, task, parentSessionId, maxDepth });
+
+    return tracer.startActiveSpan('Orchestrator.delegate', {
+      attributes: {
+        'agent.delegation.from': fromAgentId,
+        'agent.delegation.to': toAgentId,
+        'agent.delegation.depth': ctx.depth + 1,
+        'agent.delegation.session_id': child.metadata.session_id,
+      },
+    }, async (span) => {
+      try {
+        console.log(`🤝 ${fromAgentId} delegating to ${toAgentId} (depth ${ctx.depth + 1}, session ${child.metadata.session_id})`);
+        // Runs inside the parent's mailbox turn, so it bypasses the mailbox
+        // The delegating call's deadline also stops the sub-run, so it spends no more tokens
+        const response = await this.processEvent(child, { signal }, childContext);
+        span.setStatus({ code: SpanStatusCode.OK });
+        return response;
+      } catch (err) {
+        span.recordException(err as Error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: (err as Error).message });
+        throw err;
+      } finally {
+        span.end();
       }
+    });
+  }
+
+  /**
+   * Make sure the session has a record in `sessions` and mark it active.
+   * Events for a closed session were moved to a fresh one before this point.
+   */
+  private async ensureSession(
+    sessionId: string,
+    { user_id, chat_id, agent_id, title }: { user_id?: string; chat_id?: string; agent_id: string; title?: string }
+  ): Promise<void> {
+    const existing = await this.store.getSessionById(sessionId);
+    if (!existing) {
+      await this.store.createSession({
+        id: sessionId,
+        user_id,
+        chat_id,
+        agent_id,
+        title: title?.trim().slice(0, 80),
+      });
+      return;
     }
+    if (existing.status === 'closed') throw new Error(`Session ${sessionId} is closed`);
+    await this.store.touchSession(sessionId, { agent_id });
   }
-}
\ No newline at end of file
+}
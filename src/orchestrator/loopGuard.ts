@@ -0,0 +1,137 @@
+/**
+ * Per-agent limits on a single run of the agent loop (`AgentConfig.limits`).
+ */
+export interface AgentLimits {
+  /** Maximum LLM calls per event. */
+  max_llm_turns?: number;
+  /** Maximum tool calls executed per event, across all turns. */
+  max_tool_calls?: number;
+  /** Maximum cumulative `usage.total_tokens` per event. */
+  max_total_tokens?: number;
+}
+
+export const DEFAULT_AGENT_LIMITS: Required<AgentLimits> = {
+  max_llm_turns: 10,
+  max_tool_calls: 30,
+  max_total_tokens: 400_000,
+};
+
+/**
+ * Why the agent loop stopped. Recorded on the span and in conversation_history.
+ */
+export type TerminationReason =
+  | 'completed'
+  | 'length'
+  | 'content_filter'
+  | 'empty_response'
+  | 'unexpected_finish_reason'
+  | 'max_llm_turns'
+  | 'max_tool_calls'
+  | 'max_total_tokens'
+  | 'invalid_structured_output'
+  | 'awaiting_approval'
+  | 'access_denied'
+  | 'rate_limited'
+  | 'quota_exceeded';
+
+/**
+ * What the loop should do after an LLM turn.
+ * - `tools`: execute the turn's tool calls and call the LLM again
+ * - `reply`: stop and send `text`; `fallback` marks text that did not come from the model,
+ *   and `skipToolCalls` marks tool calls that were requested but will not run
+ */
+export type TurnOutcome =
+  | { action: 'tools' }
+  | { action: 'reply'; reason: TerminationReason; text: string; fallback: boolean; skipToolCalls?: boolean };
+
+type FallbackReason = Exclude<TerminationReason, 'completed' | 'awaiting_approval'>;
+
+const FALLBACK_MESSAGES: Record<FallbackReason, string> = {
+  length: "Sorry, my reply ran too long and was cut off. Could you ask for a shorter answer?",
+  content_filter: "Sorry, I can't help with that request.",
+  empty_response: "Sorry, I wasn't able to come up with a reply. Please try again.",
+  unexpected_finish_reason: "Sorry, something went wrong while preparing my reply. Please try again.",
+  max_llm_turns: "Sorry, I couldn't finish this — it needed more steps than I'm allowed. Could you narrow the request down?",
+  max_tool_calls: "Sorry, I couldn't finish this — it needed more tool calls than I'm allowed. Could you narrow the request down?",
+  max_total_tokens: "Sorry, I couldn't finish this — it used up the processing budget for a single request. Could you narrow the request down?",
+  invalid_structured_output: "Sorry, I couldn't produce an answer in the required format. Please try again.",
+  access_denied: "Sorry, you don't have access to this agent.",
+  rate_limited: "You're sending messages faster than I can keep up. Please wait a moment and try again.",
+  quota_exceeded: "You've reached today's usage limit for this agent. Please try again tomorrow.",
+};
+
+const TRUNCATION_NOTE = "\n\n(This reply was cut short because it reached the maximum length.)";
+
+export function fallbackMessage(reason: FallbackReason): string {
+  return FALLBACK_MESSAGES[reason];
+}
+
+/**
+ * Tracks LLM turns, tool calls and token usage for one run of the agent loop
+ * and decides, after every turn, whether the loop may continue.
+ */
+export class LoopGuard {
+  public turns = 0;
+  public toolCalls = 0;
+  public totalTokens = 0;
+  private limits: Required<AgentLimits>;
+
+  constructor(limits: AgentLimits = {}) {
+    this.limits = { ...DEFAULT_AGENT_LIMITS, ...limits };
+  }
+
+  /** Checked before each LLM call; returns the tripped limit, if any. */
+  checkBeforeTurn(): 'max_llm_turns' | null {
+    return this.turns >= this.limits.max_llm_turns ? 'max_llm_turns' : null;
+  }
+
+  /** Count one LLM call and the tokens it used. */
+  recordTurn(usage?: { total_tokens?: number }): void {
+    this.turns++;
+    this.totalTokens += Number(usage?.total_tokens ?? 0);
+  }
+
+  /**
+   * Classify a completed turn. Tool calls continue the loop unless running
+   * them would exceed the tool-call limit or the token budget is spent.
+   * Every finish reason without tool calls ends the loop with a reply.
+   */
+  evaluate({ finishReason, content, toolCallCount }: {
+    finishReason: string | null | undefined;
+    content: string | null | undefined;
+    toolCallCount: number;
+  }): TurnOutcome {
+    const hasContent = typeof content === 'string' && content.trim() !== '';
+
+    if (toolCallCount > 0) {
+      const limit: TerminationReason | null =
+        this.toolCalls + toolCallCount > this.limits.max_tool_calls ? 'max_tool_calls'
+          : this.totalTokens >= this.limits.max_total_tokens ? 'max_total_tokens'
+            : null;
+
+      if (limit) {
+        return { action: 'reply', reason: limit, text: fallbackMessage(limit), fallback: true, skipToolCalls: true };
+      }
+      this.toolCalls += toolCallCount;
+      return { action: 'tools' };
+    }
+
+    switch (finishReason) {
+      case 'stop':
+        return hasContent
+          ? { action: 'reply', reason: 'completed', text: content!, fallback: false }
+          : { action: 'reply', reason: 'empty_response', text: fallbackMessage('empty_response'), fallback: true };
+      case 'length':
+        return hasContent
+          ? { action: 'reply', reason: 'length', text: content! + TRUNCATION_NOTE, fallback: false }
+          : { action: 'reply', reason: 'length', text: fallbackMessage('length'), fallback: true };
+      case 'content_filter':
+        return { action: 'reply', reason: 'content_filter', text: fallbackMessage('content_filter'), fallback: true };
+      default:
+        console.warn(`⚠️ Unexpected finish_reason: ${finishReason}`);
+        return hasContent
+          ? { action: 'reply', reason: 'unexpected_finish_reason', text: content!, fallback: false }
+          : { action: 'reply', reason: 'unexpected_finish_reason', text: fallbackMessage('unexpected_finish_reason'), fallback: true };
+    }
+  }
+}
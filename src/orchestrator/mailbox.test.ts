@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Event } from '../models/Event.js';
+import { InMemoryLockBackend } from '../locks/store.js';
+import { SessionMailbox, canCoalesce } from './mailbox.js';
+
+function event(id: string, changes: Partial<Event> = {}): Event {
+  return {
+    id, agent_id: 'a1', timestamp: new Date().toISOString(), messages: [{ type: 'text', text: id }],
+    sender: { source: 'telegram', user_id: 'u1' }, recipients: [{ channel: 'telegram', chat_id: 100 }], metadata: {},
+    ...changes,
+  } as Event;
+}
+
+test('canCoalesce needs the same agent, source, recipients and session', () => {
+  assert.equal(canCoalesce(event('e1'), event('e2')), true);
+  assert.equal(canCoalesce(event('e1'), event('e2', { agent_id: 'a2' })), false);
+  assert.equal(canCoalesce(event('e1'), event('e2', { sender: { source: 'watch-app', user_id: 'u1' } })), false);
+  assert.equal(canCoalesce(event('e1'), event('e2', { recipients: [{ channel: 'telegram', chat_id: 200 }] })), false);
+  assert.equal(canCoalesce(event('e1'), event('e2', { metadata: { session_id: 's2' } })), false);
+});
+
+test('canCoalesce never merges approvals or response formats', () => {
+  assert.equal(canCoalesce(event('e1'), event('e2', { metadata: { approval: { id: 'p1', decision: 'approve' } } })), false);
+  assert.equal(canCoalesce(event('e1', { metadata: { response_format: { type: 'json_object' } } } as Partial<Event>), event('e2')), false);
+});
+
+test('events merged into one run are reported to onCoalesced', async () => {
+  let release!: () => void;
+  const handled: string[][] = [];
+  const absorbed: string[][] = [];
+  const mailbox = new SessionMailbox(new InMemoryLockBackend(), async (e: Event) => {
+    handled.push(e.messages.map(m => (m as { text: string }).text));
+    if (handled.length === 1) await new Promise<void>(resolve => { release = resolve; });
+    return e.id;
+  }, {
+    coalesce: true,
+    onCoalesced: async (events) => { absorbed.push(events.map(e => e.id)); },
+  });
+
+  const first = mailbox.run(event('e1'));
+  const merged = [mailbox.run(event('e2')), mailbox.run(event('e3'))];
+  const separate = mailbox.run(event('e4', { metadata: { approval: { id: 'p1', decision: 'approve' } } }));
+  await new Promise(resolve => setTimeout(resolve, 10));
+  release();
+
+  assert.equal(await first, 'e1');
+  assert.deepEqual(await Promise.all(merged), ['e3', 'e3']);
+  assert.equal(await separate, 'e4');
+  assert.deepEqual(handled, [['e1'], ['e2', 'e3'], ['e4']]);
+  assert.deepEqual(absorbed, [['e2']]);
+});
@@ -0,0 +1,166 @@
+import { trace } from '@opentelemetry/api';
+import type { Event } from '../models/Event.js';
+import type { LockBackend } from '../locks/store.js';
+import type { HandleEventOptions } from './index.js';
+
+const LOCK_TTL_MS = 60_000;
+const LOCK_POLL_MS = 250;
+const DEFAULT_LOCK_WAIT_MS = 5 * 60_000;
+
+export interface MailboxOptions {
+  /** Merge events that queue up behind a running one into a single next turn. */
+  coalesce?: boolean;
+  /**
+   * Called before a merged run with the events folded into the newest one, e.g.
+   * to settle their placeholders, which the merged reply does not edit.
+   */
+  onCoalesced?: (absorbed: Event[], into: Event) => Promise<void>;
+  /** How long to wait for another instance to release the lock. */
+  lockWaitMs?: number;
+}
+
+interface Letter<T> {
+  event: Event;
+  options: HandleEventOptions;
+  resolve: (value: T) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Conversation a run belongs to: the sender's user id, else an explicit session id.
+ * Events with neither cannot collide and are not serialised.
+ */
+export function mailboxKey(event: Event): string | null {
+  if (event.sender?.user_id != null) return `user:${event.sender.user_id}`;
+  if (event.metadata?.session_id != null) return `session:${event.metadata.session_id}`;
+  return null;
+}
+
+/**
+ * Whether `next` may be folded into the same run as `first`: same agent, source,
+ * recipients and session, and neither carries per-event instructions (a tool
+ * approval or a response format) that merging would drop.
+ */
+export function canCoalesce(first: Event, next: Event): boolean {
+  const perEvent = (e: Event) => e.metadata?.approval != null || e.metadata?.response_format != null;
+  const recipients = (e: Event) => JSON.stringify(e.recipients ?? []);
+  return !perEvent(first)
+    && !perEvent(next)
+    && next.agent_id === first.agent_id
+    && next.sender?.source === first.sender?.source
+    && next.metadata?.session_id === first.metadata?.session_id
+    && recipients(next) === recipients(first);
+}
+
+/**
+ * Fold several events into one: their messages in arrival order, everything
+ * else (id, placeholder, metadata) from the newest. Only events that pass
+ * `canCoalesce` are merged.
+ */
+export function mergeEvents(events: Event[]): Event {
+  const latest = events[events.length - 1];
+  return {
+    ...latest,
+    messages: events.flatMap(e => e.messages),
+    metadata: { ...latest.metadata, coalesced_event_ids: events.map(e => e.id) },
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Serialises runs per conversation so concurrent events never interleave
+ * their history. Within a process, events for the same key wait in a FIFO
+ * mailbox; across instances, each run also holds a lease from the LockBackend.
+ *
+ * With `coalesce`, events that arrive while a run is in flight are merged into
+ * the next run, and every caller receives that run's result. Streaming callers
+ * (`onDelta`) are never merged.
+ */
+export class SessionMailbox<T> {
+  private boxes = new Map<string, Letter<T>[]>();
+
+  constructor(
+    private locks: LockBackend,
+    private handler: (event: Event, options: HandleEventOptions) => Promise<T>,
+    private options: MailboxOptions = {},
+  ) {}
+
+  public run(event: Event, options: HandleEventOptions = {}): Promise<T> {
+    const key = mailboxKey(event);
+    if (!key) return this.handler(event, options);
+
+    return new Promise<T>((resolve, reject) => {
+      const box = this.boxes.get(key);
+      const letter = { event, options, resolve, reject };
+      if (box) {
+        box.push(letter);
+        console.log(`📬 Event ${event.id} waiting for the running event of ${key}`);
+        return;
+      }
+      this.boxes.set(key, [letter]);
+      void this.drain(key);
+    });
+  }
+
+  private async drain(key: string): Promise<void> {
+    const box = this.boxes.get(key)!;
+    while (box.length > 0) {
+      const batch = this.takeBatch(box);
+      const event = batch.length > 1 ? mergeEvents(batch.map(l => l.event)) : batch[0].event;
+      if (batch.length > 1) console.log(`📬 Coalesced ${batch.length} events for ${key} into ${event.id}`);
+
+      try {
+        if (batch.length > 1 && this.options.onCoalesced) {
+          await this.options.onCoalesced(batch.slice(0, -1).map(l => l.event), event)
+            .catch(err => console.error(`❌ Failed to settle coalesced events for ${key}:`, err));
+        }
+        const result = await this.withLock(key, () => this.handler(event, batch[0].options));
+        batch.forEach(l => l.resolve(result));
+      } catch (err) {
+        batch.forEach(l => l.reject(err));
+      }
+    }
+    this.boxes.delete(key);
+  }
+
+  private takeBatch(box: Letter<T>[]): Letter<T>[] {
+    const first = box.shift()!;
+    if (!this.options.coalesce || first.options.onDelta) return [first];
+
+    const batch = [first];
+    while (box.length > 0 && !box[0].options.onDelta && canCoalesce(first.event, box[0].event)) {
+      batch.push(box.shift()!);
+    }
+    return batch;
+  }
+
+  private async withLock<R>(key: string, fn: () => Promise<R>): Promise<R> {
+    const waitStart = Date.now();
+    const deadline = waitStart + (this.options.lockWaitMs ?? DEFAULT_LOCK_WAIT_MS);
+
+    let token = await this.locks.tryAcquire(key, LOCK_TTL_MS);
+    while (!token) {
+      if (Date.now() >= deadline) throw new Error(`[SessionMailbox] Timed out waiting for the lock on ${key}`);
+      await sleep(LOCK_POLL_MS);
+      token = await this.locks.tryAcquire(key, LOCK_TTL_MS);
+    }
+
+    trace.getActiveSpan()?.setAttributes({ 'mailbox.key': key, 'mailbox.lock_wait_ms': Date.now() - waitStart });
+
+    // Keep the lease alive for runs longer than its TTL
+    const heartbeat = setInterval(() => {
+      this.locks.extend(key, token!, LOCK_TTL_MS)
+        .then(held => { if (!held) console.warn(`⚠️ Lost the lock on ${key} while running`); })
+        .catch(err => console.error(`❌ Failed to extend the lock on ${key}:`, err));
+    }, LOCK_TTL_MS / 3);
+    heartbeat.unref();
+
+    try {
+      return await fn();
+    } finally {
+      clearInterval(heartbeat);
+      await this.locks.release(key, token).catch(err => console.error(`❌ Failed to release the lock on ${key}:`, err));
+    }
+  }
+}
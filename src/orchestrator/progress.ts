@@ -0,0 +1,177 @@
+import type { Event } from '../models/Event.js';
+import { sendResponse } from '../clients/response.js';
+
+/**
+ * Points in a run at which the user is told what the agent is doing:
+ * - `retrieving_context`: searching memory from previous interactions
+ * - `resolving_tools`: running tool calls; `{count}` is the number of calls
+ * - `thinking`: preparing the final reply
+ */
+export type ProgressStage = 'retrieving_context' | 'resolving_tools' | 'thinking';
+
+export type ProgressTemplates = Record<ProgressStage, string>;
+
+/**
+ * Progress message settings (`AgentConfig.progress`).
+ */
+export interface ProgressConfig {
+  /** Send progress messages at all. Defaults to true. */
+  enabled?: boolean;
+  /** Catalog to take messages from, e.g. `zh` or `zh-SG`. Defaults to `en`. */
+  locale?: string;
+  /** Overrides for the catalog's messages; an empty string silences a stage. */
+  templates?: Partial<ProgressTemplates>;
+  /** Messages shown instead of `resolving_tools` while a tool runs, keyed by tool name. */
+  tool_messages?: Record<string, string>;
+  /** Channels that get no progress messages. Defaults to `watch-app`, which cannot edit messages. */
+  disabled_channels?: string[];
+  /** Minimum interval between progress messages, in milliseconds. Defaults to 1000. */
+  min_interval_ms?: number;
+}
+
+/** Delivers one progress message for an event. */
+export type ProgressSink = (event: Event, text: string) => Promise<void>;
+
+export const DEFAULT_PROGRESS_LOCALE = 'en';
+export const DEFAULT_PROGRESS_DISABLED_CHANNELS = ['watch-app'];
+export const DEFAULT_PROGRESS_INTERVAL_MS = 1000;
+
+/** Built-in messages by locale. */
+export const PROGRESS_CATALOGS: Record<string, ProgressTemplates> = {
+  en: {
+    retrieving_context: '🔍 Retrieving context from previous interactions...',
+    resolving_tools: '🛠 Resolving {count} tool call(s)',
+    thinking: '🤔 Thinking it through and preparing your reply...',
+  },
+  zh: {
+    retrieving_context: '🔍 正在查找之前的对话记录...',
+    resolving_tools: '🛠 正在处理 {count} 个工具调用',
+    thinking: '🤔 正在思考并准备回复...',
+  },
+  ms: {
+    retrieving_context: '🔍 Mendapatkan konteks daripada perbualan lalu...',
+    resolving_tools: '🛠 Menjalankan {count} panggilan alat',
+    thinking: '🤔 Sedang berfikir dan menyediakan balasan anda...',
+  },
+};
+
+/** The catalog for `locale`, falling back to its language (`zh-SG` → `zh`) and then to English. */
+export function progressCatalog(locale: string = DEFAULT_PROGRESS_LOCALE): ProgressTemplates {
+  const normalized = locale.toLowerCase().replace('_', '-');
+  return PROGRESS_CATALOGS[normalized]
+    ?? PROGRESS_CATALOGS[normalized.split('-')[0]]
+    ?? PROGRESS_CATALOGS[DEFAULT_PROGRESS_LOCALE];
+}
+
+function render(template: string, vars: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in vars ? String(vars[key]) : match));
+}
+
+/** Edits the event's placeholder message, or sends a new message when there is none. */
+export const placeholderEditSink: ProgressSink = async (event, text) => {
+  await sendResponse(
+    event,
+    {
+      type: 'text',
+      text,
+      // placeholder_message_id will be automatically added if includePlaceholder is true
+    },
+    {
+      includePlaceholder: true,
+      editMessage: true
+    }
+  );
+};
+
+/**
+ * Tells the user what the agent is doing while it works on one event.
+ *
+ * Only human senders get progress messages, and only on channels the agent has
+ * not disabled. Messages closer together than `min_interval_ms` are coalesced:
+ * the latest one is sent once the interval has passed, unless a reply (or a
+ * streamed edit) supersedes it first — see `settle`.
+ */
+export class ProgressReporter {
+  private target: Event;
+  private templates: ProgressTemplates;
+  private toolMessages: Record<string, string>;
+  private minIntervalMs: number;
+  private pending: string | undefined;
+  private lastSent = '';
+  private lastSentAt = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private inFlight: Promise<void> = Promise.resolve();
+
+  constructor(
+    event: Event,
+    config: ProgressConfig = {},
+    private sink: ProgressSink = placeholderEditSink
+  ) {
+    const disabledChannels = config.disabled_channels ?? DEFAULT_PROGRESS_DISABLED_CHANNELS;
+    const isHuman = event.sender?.source != null && !event.sender.is_bot;
+    const recipients = isHuman && config.enabled !== false
+      ? (event.recipients ?? []).filter(r => !disabledChannels.includes(r.channel))
+      : [];
+
+    this.target = { ...event, recipients };
+    this.templates = { ...progressCatalog(config.locale), ...config.templates };
+    this.toolMessages = config.tool_messages ?? {};
+    this.minIntervalMs = config.min_interval_ms ?? DEFAULT_PROGRESS_INTERVAL_MS;
+  }
+
+  /** Whether any recipient will see progress messages. */
+  get enabled(): boolean {
+    return this.target.recipients!.length > 0;
+  }
+
+  public report(stage: ProgressStage, vars: Record<string, string | number> = {}): Promise<void> {
+    return this.push(render(this.templates[stage], vars));
+  }
+
+  /**
+   * Report a turn's tool calls, using the agent's message for each tool that has
+   * one and the `resolving_tools` message when none does.
+   */
+  public reportTools(toolNames: string[]): Promise<void> {
+    const messages = [...new Set(toolNames.map(name => this.toolMessages[name]).filter(Boolean))];
+    if (messages.length === 0) return this.report('resolving_tools', { count: toolNames.length });
+    return this.push(messages.join('\n'));
+  }
+
+  /** Drop any coalesced message and wait for the one being sent, before the message is edited elsewhere. */
+  public async settle(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.pending = undefined;
+    await this.inFlight;
+  }
+
+  private push(text: string): Promise<void> {
+    if (!this.enabled || !text.trim()) return Promise.resolve();
+    this.pending = text;
+    if (this.timer) return Promise.resolve();
+
+    const wait = this.lastSentAt + this.minIntervalMs - Date.now();
+    if (wait <= 0) return this.flush();
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.flush();
+    }, wait);
+    return Promise.resolve();
+  }
+
+  private flush(): Promise<void> {
+    const text = this.pending;
+    this.pending = undefined;
+    if (text === undefined || text === this.lastSent) return this.inFlight;
+
+    this.lastSent = text;
+    this.lastSentAt = Date.now();
+    this.inFlight = this.inFlight
+      .then(() => this.sink(this.target, text))
+      .catch(err => console.error('❌ Failed to send progress message:', err));
+    return this.inFlight;
+  }
+}
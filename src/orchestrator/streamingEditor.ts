@@ -0,0 +1,59 @@
+/**
+ * Coalesces rapid text updates into throttled edits of a single message.
+ *
+ * Streaming produces many small deltas, but channels such as Telegram rate-limit
+ * message edits, so only the latest text is sent at most once per `intervalMs`.
+ * Edits are chained so they reach the channel in order.
+ */
+export class ThrottledMessageEditor {
+  private latest = '';
+  private lastSent = '';
+  private lastSentAt = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private inFlight: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(
+    private send: (text: string) => Promise<void>,
+    private intervalMs: number = 1200
+  ) {}
+
+  /** Whether at least one edit has been dispatched. */
+  get hasSent(): boolean {
+    return this.lastSent !== '';
+  }
+
+  /** Replace the pending text; an edit is scheduled if none is already waiting. */
+  update(text: string): void {
+    if (this.closed || !text.trim()) return;
+    this.latest = text;
+    if (this.timer) return;
+
+    const wait = Math.max(0, this.lastSentAt + this.intervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.flush();
+    }, wait);
+  }
+
+  /** Stop scheduling edits and wait for any edit already dispatched. */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.inFlight;
+  }
+
+  private flush(): void {
+    if (this.closed || this.latest === this.lastSent) return;
+
+    const text = this.latest;
+    this.lastSent = text;
+    this.lastSentAt = Date.now();
+    this.inFlight = this.inFlight
+      .then(() => this.send(text))
+      .catch(err => console.error('❌ Failed to send streaming edit:', err));
+  }
+}
@@ -0,0 +1,81 @@
+import { Ajv } from 'ajv';
+import type { ValidateFunction } from 'ajv';
+import type { JsonSchemaFormat } from '../clients/providers/index.js';
+
+/**
+ * Structured output for an agent (`AgentConfig.response_format`) or a single
+ * event (`metadata.response_format`): the final answer must be JSON matching `schema`.
+ */
+export interface StructuredOutputConfig extends JsonSchemaFormat {
+  /** Re-prompts after an answer fails validation. Defaults to 2. */
+  max_retries?: number;
+}
+
+export const DEFAULT_STRUCTURED_OUTPUT_RETRIES = 2;
+
+export type StructuredOutputResult =
+  | { ok: true; data: unknown }
+  | { ok: false; error: string };
+
+// strict: false lets schemas carry provider-specific keywords without failing to compile
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validators = new Map<string, ValidateFunction>();
+
+function validatorFor(schema: Record<string, any>): ValidateFunction {
+  const key = JSON.stringify(schema);
+  let validate = validators.get(key);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    validators.set(key, validate);
+  }
+  return validate;
+}
+
+/** Error message if `schema` is not a usable JSON Schema, otherwise null. */
+export function checkSchema(schema: unknown): string | null {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return 'response_format.schema must be a JSON Schema object';
+  try {
+    validatorFor(schema as Record<string, any>);
+    return null;
+  } catch (err) {
+    return `response_format.schema is invalid: ${(err as Error).message}`;
+  }
+}
+
+/**
+ * The response format for this event: `metadata.response_format` overrides the agent's.
+ */
+export function resolveResponseFormat(
+  agentFormat: StructuredOutputConfig | undefined,
+  metadata: Record<string, any> | undefined
+): StructuredOutputConfig | undefined {
+  return metadata?.response_format ?? agentFormat;
+}
+
+/**
+ * Parse the model's final answer and validate it against the schema.
+ * Markdown code fences around the JSON are tolerated.
+ */
+export function parseStructuredOutput(content: string | null, schema: Record<string, any>): StructuredOutputResult {
+  const text = (content ?? '').trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+  if (!text) return { ok: false, error: 'The answer was empty.' };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    return { ok: false, error: `The answer is not valid JSON: ${(err as Error).message}` };
+  }
+
+  const validate = validatorFor(schema);
+  if (!validate(data)) {
+    const errors = (validate.errors ?? []).map(e => `${e.instancePath || '/'} ${e.message}`);
+    return { ok: false, error: `The answer does not match the schema: ${errors.join('; ')}` };
+  }
+  return { ok: true, data };
+}
+
+/** User turn asking the model to correct an answer that failed validation. */
+export function repairPrompt(error: string): string {
+  return `${error}\nReply again with only a JSON value that matches the required schema.`;
+}
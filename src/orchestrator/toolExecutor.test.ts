@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { executeToolCalls } from './toolExecutor.js';
+import { ToolRegistry } from './toolRegistry.js';
+
+test('cancelling the run aborts its running tool calls', async () => {
+  const registry = await ToolRegistry.fromServers([]);
+  let toolSignal: AbortSignal | undefined;
+  registry.registerBuiltin(
+    { name: 'wait', description: 'Never answers', parameters: { type: 'object', properties: {} } },
+    (_args, signal) => { toolSignal = signal; return new Promise(() => {}); },
+  );
+
+  const run = new AbortController();
+  const pending = executeToolCalls(
+    [{ index: 0, id: 'c1', type: 'function', function: { name: 'wait', arguments: '{}' } }],
+    registry,
+    { tool_timeout_ms: 60_000, overall_timeout_ms: 60_000 },
+    run.signal,
+  );
+  setTimeout(() => run.abort(new Error('Delegation deadline exceeded')), 10);
+
+  const [message] = await pending;
+  assert.equal(toolSignal?.aborted, true);
+  assert.equal(JSON.parse(message.content)[0].error.type, 'timeout');
+});
@@ -0,0 +1,156 @@
+import { trace, SpanStatusCode, Tracer } from '@opentelemetry/api';
+import type { ToolCall, ToolMessage } from '../clients/llm.js';
+import type { ToolRegistry } from './toolRegistry.js';
+import { mapWithConcurrency, raceAbort } from '../utils/concurrency.js';
+
+const tracer: Tracer = trace.getTracer('agents-service', '1.0.0');
+
+/**
+ * Per-agent tool execution limits (`AgentConfig.tool_execution`).
+ */
+export interface ToolExecutionConfig {
+  /** Maximum tool calls from one assistant turn running at once. */
+  concurrency?: number;
+  /** Deadline for a single tool call. */
+  tool_timeout_ms?: number;
+  /** Deadline for all tool calls of one assistant turn together. */
+  overall_timeout_ms?: number;
+  /** Per-tool overrides of `tool_timeout_ms`, keyed by LLM-facing tool name. */
+  tool_timeouts?: Record<string, number>;
+}
+
+export const DEFAULT_TOOL_EXECUTION: Required<Omit<ToolExecutionConfig, 'tool_timeouts'>> = {
+  concurrency: 4,
+  tool_timeout_ms: 30_000,
+  overall_timeout_ms: 90_000,
+};
+
+/**
+ * Drop arguments the model filled with null, undefined or an empty string.
+ */
+function parseToolArguments(name: string, argsRaw: string): Record<string, any> {
+  let parsedArgs: Record<string, any> = {};
+  try {
+    parsedArgs = JSON.parse(argsRaw || '{}');
+  } catch (err) {
+    console.error(`❌ Failed to parse tool arguments for ${name}:`, argsRaw);
+  }
+
+  const cleanedArgs: Record<string, any> = {};
+  for (const key in parsedArgs) {
+    const value = parsedArgs[key];
+    if (value !== undefined && value !== null && value !== '') {
+      cleanedArgs[key] = value;
+    }
+  }
+  console.log(`🧼 Cleaned tool arguments for ${name}: ${JSON.stringify(cleanedArgs)}`);
+  return cleanedArgs;
+}
+
+/**
+ * Extract the relevant content/messages array from an MCP tool result.
+ */
+function toToolContent(toolResult: any): any[] {
+  if (toolResult?.result?.content) return toolResult.result.content;
+  if (toolResult?.messages) return toolResult.messages;
+  return [toolResult];
+}
+
+/**
+ * Structured result telling the model a tool did not answer in time, so it can
+ * retry, try something else, or explain the delay to the user.
+ */
+function timeoutContent(name: string, timeoutMs: number, scope: 'tool' | 'overall'): any[] {
+  return [{
+    error: {
+      type: 'timeout',
+      tool: name,
+      timeout_ms: timeoutMs,
+      message: scope === 'tool'
+        ? `Tool '${name}' did not respond within ${timeoutMs} ms and was cancelled.`
+        : `Tool '${name}' was cancelled because this turn's tool calls exceeded ${timeoutMs} ms in total.`,
+    },
+  }];
+}
+
+/**
+ * Execute the tool calls of one assistant turn concurrently.
+ *
+ * At most `concurrency` calls run at once. Each call is cancelled through its
+ * AbortSignal when its own deadline or the turn's overall deadline passes, and
+ * yields a timeout ToolMessage instead of a result. `runSignal`, the run's own
+ * cancellation, aborts every call like the overall deadline. Failures never
+ * throw; they become error ToolMessages. Messages are returned in `calls` order.
+ */
+export async function executeToolCalls(
+  calls: ToolCall[],
+  registry: ToolRegistry,
+  config: ToolExecutionConfig = {},
+  runSignal?: AbortSignal
+): Promise<ToolMessage[]> {
+  const concurrency = config.concurrency ?? DEFAULT_TOOL_EXECUTION.concurrency;
+  const toolTimeoutMs = config.tool_timeout_ms ?? DEFAULT_TOOL_EXECUTION.tool_timeout_ms;
+  const overallTimeoutMs = config.overall_timeout_ms ?? DEFAULT_TOOL_EXECUTION.overall_timeout_ms;
+
+  return tracer.startActiveSpan('Orchestrator.executeToolCalls', {
+    attributes: {
+      'tool.call_count': calls.length,
+      'tool.concurrency': concurrency,
+      'tool.overall_timeout_ms': overallTimeoutMs,
+    },
+  }, async (span) => {
+    const overall = new AbortController();
+    const overallTimer = setTimeout(() => overall.abort(new Error('Overall tool deadline exceeded')), overallTimeoutMs);
+    const cancel = () => overall.abort(runSignal?.reason);
+    if (runSignal?.aborted) cancel();
+    else runSignal?.addEventListener('abort', cancel, { once: true });
+    let timedOut = 0;
+
+    try {
+      const messages = await mapWithConcurrency(calls, concurrency, async (call) => {
+        const { id: tool_call_id, function: fn } = call;
+        const { name, arguments: argsRaw } = fn;
+        const cleanedArgs = parseToolArguments(name, argsRaw);
+
+        const timeoutMs = config.tool_timeouts?.[name] ?? toolTimeoutMs;
+        const signal = AbortSignal.any([overall.signal, AbortSignal.timeout(timeoutMs)]);
+
+        let contentArray: any[];
+        try {
+          const toolResult = await raceAbort(registry.callTool(name, cleanedArgs, signal), signal);
+          console.log(`🧰 Tool '${name}' executed successfully`, toolResult);
+          contentArray = toToolContent(toolResult);
+        } catch (err) {
+          if (signal.aborted) {
+            timedOut++;
+            const scope = overall.signal.aborted ? 'overall' : 'tool';
+            console.warn(`⏱️ Tool '${name}' cancelled after ${scope} deadline`);
+            contentArray = timeoutContent(name, scope === 'overall' ? overallTimeoutMs : timeoutMs, scope);
+          } else {
+            console.error(`❌ Tool '${name}' failed:`, err);
+            contentArray = toToolContent({ error: String(err) });
+          }
+        }
+
+        const toolMessage: ToolMessage = {
+          role: "tool",
+          content: JSON.stringify(contentArray, null, 2),
+          tool_call_id,
+        };
+        return toolMessage;
+      });
+
+      span.setAttribute('tool.timed_out_count', timedOut);
+      span.setStatus({ code: SpanStatusCode.OK });
+      return messages;
+    } catch (err) {
+      span.recordException(err as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: (err as Error).message });
+      throw err;
+    } finally {
+      clearTimeout(overallTimer);
+      runSignal?.removeEventListener('abort', cancel);
+      span.end();
+    }
+  });
+}
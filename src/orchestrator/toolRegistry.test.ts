@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { MCPServerConfig } from '../agents/factory/index.js';
+import { mcpToolsCache } from '../cache/caches.js';
+import { ToolRegistry } from './toolRegistry.js';
+
+/** Tool names each fake MCP server lists, by URL. */
+let serverTools: Record<string, string[]> = {};
+const realFetch = globalThis.fetch;
+
+beforeEach(() => {
+  mcpToolsCache.clear();
+  globalThis.fetch = async (url) => {
+    const tools = (serverTools[String(url)] ?? []).map(name => ({ name, description: name, inputSchema: { type: 'object' } }));
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id: '1', result: { tools } }), {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+    });
+  };
+});
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+});
+
+function names(registry: ToolRegistry): string[] {
+  return registry.definitions.map(d => d.name).sort();
+}
+
+test('servers sharing an alias get numbered ones', async () => {
+  serverTools = {
+    'http://localhost:3001/mcp': ['search'],
+    'http://localhost:3002/mcp': ['search'],
+  };
+  const registry = await ToolRegistry.fromServers([
+    { url: 'http://localhost:3001/mcp', api_key: 'k', allowed_tools: ['search'] },
+    { url: 'http://localhost:3002/mcp', api_key: 'k', allowed_tools: ['search'] },
+  ]);
+
+  assert.deepEqual(names(registry), ['localhost_2__search', 'localhost__search']);
+});
+
+test('a namespaced name never replaces another server\'s plain tool', async () => {
+  serverTools = {
+    'https://a.example/mcp': ['get'],
+    'https://b.example/mcp': ['get'],
+    'https://c.example/mcp': ['a__get'],
+  };
+  const registry = await ToolRegistry.fromServers([
+    { url: 'https://a.example/mcp', api_key: 'k', allowed_tools: ['get'] },
+    { url: 'https://b.example/mcp', api_key: 'k', allowed_tools: ['get'] },
+    { url: 'https://c.example/mcp', api_key: 'k', allowed_tools: ['a__get'] },
+  ]);
+
+  assert.deepEqual(names(registry), ['a__get', 'a__get_2', 'b__get']);
+});
+
+test('names truncated to 64 characters stay unique', async () => {
+  const long = 'x'.repeat(70);
+  serverTools = {
+    'https://one.example/mcp': ['dup'],
+    'https://two.example/mcp': ['dup'],
+  };
+  const registry = await ToolRegistry.fromServers([
+    { url: 'https://one.example/mcp', name: `${long}a`, api_key: 'k', allowed_tools: ['dup'] },
+    { url: 'https://two.example/mcp', name: `${long}b`, api_key: 'k', allowed_tools: ['dup'] },
+  ]);
+
+  const exposed = names(registry);
+  assert.equal(exposed.length, 2);
+  assert.equal(new Set(exposed).size, 2);
+  assert.ok(exposed.every(name => name.length <= 64));
+});
+
+test('a duplicate server entry without allowed_tools is merged', async () => {
+  serverTools = { 'https://a.example/mcp': ['get', 'put'] };
+  // Stored configs are not validated against the interface and may lack allowed_tools
+  const withoutAllowedTools = { url: 'https://a.example/mcp', api_key: 'k' } satisfies Omit<MCPServerConfig, 'allowed_tools'>;
+  const registry = await ToolRegistry.fromServers([
+    { url: 'https://a.example/mcp', api_key: 'k', allowed_tools: ['get'] },
+    withoutAllowedTools as MCPServerConfig,
+  ]);
+
+  assert.deepEqual(names(registry), ['get']);
+});
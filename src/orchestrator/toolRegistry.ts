@@ -0,0 +1,257 @@
+import { trace, SpanStatusCode, Tracer } from '@opentelemetry/api';
+import { MCPClient } from '../clients/mcp.js';
+import type { MCPServerConfig } from '../agents/factory/index.js';
+import { CONFIG } from '../utils/config.js';
+import { mcpToolsCache } from '../cache/caches.js';
+
+const tracer: Tracer = trace.getTracer('agents-service', '1.0.0');
+
+/** Separator between server alias and tool name for namespaced tools. */
+const NAMESPACE_SEPARATOR = '__';
+
+/** Function names sent to the LLM must match ^[a-zA-Z0-9_-]{1,64}$. */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+/** Runs a built-in tool inside the orchestrator instead of on an MCP server. */
+export type BuiltinToolHandler = (args: Record<string, any>, signal?: AbortSignal) => Promise<any>;
+
+/** Alias used as `server` for built-in tools. */
+export const BUILTIN_SERVER = 'builtin';
+
+export interface RegisteredTool {
+  /** Name exposed to the LLM; namespaced when it collides across servers. */
+  name: string;
+  /** Name the owning MCP server knows the tool by. */
+  originalName: string;
+  /** Alias of the owning server, or `builtin`. */
+  server: string;
+  /** MCP client of the owning server; unset for built-in tools. */
+  client?: MCPClient;
+  /** Set for built-in tools. */
+  handler?: BuiltinToolHandler;
+  /** Calls wait for the user's approval (`MCPServerConfig.require_confirmation`). */
+  requiresConfirmation?: boolean;
+  definition: ToolDefinition;
+}
+
+/**
+ * MCP clients are reused across events, keyed by server URL and credentials.
+ */
+const clientPool = new Map<string, MCPClient>();
+
+export function getMCPClient(server: MCPServerConfig): MCPClient {
+  const apiKey = server.api_key || CONFIG.MCP_API_KEY!;
+  const key = `${server.url}|${apiKey}`;
+  let client = clientPool.get(key);
+  if (!client) {
+    client = new MCPClient(server.url, apiKey);
+    clientPool.set(key, client);
+  }
+  return client;
+}
+
+/**
+ * A server's tool list, from `mcpToolsCache` when fresh.
+ */
+async function listServerTools(server: MCPServerConfig): Promise<{ value: ToolDefinition[]; hit: boolean }> {
+  const apiKey = server.api_key || CONFIG.MCP_API_KEY!;
+  return mcpToolsCache.getOrLoad(`${server.url}|${apiKey}`, () => getMCPClient(server).listTools());
+}
+
+/**
+ * Short, LLM-safe alias for a server: its configured `name`, else its hostname.
+ */
+export function serverAlias(server: MCPServerConfig): string {
+  let raw = server.name;
+  if (!raw) {
+    try {
+      raw = new URL(server.url).hostname.split('.')[0];
+    } catch {
+      raw = server.url;
+    }
+  }
+  return raw.replace(/[^a-zA-Z0-9_-]/g, '_').replace(/-/g, '_');
+}
+
+/**
+ * `base`, or `base_2`, `base_3`… if it is already in `taken`, kept within
+ * `maxLength`. The result is added to `taken`.
+ */
+function claimUniqueName(base: string, taken: Set<string>, maxLength: number = MAX_TOOL_NAME_LENGTH): string {
+  let name = base.slice(0, maxLength);
+  for (let n = 2; taken.has(name); n++) {
+    const suffix = `_${n}`;
+    name = `${base.slice(0, maxLength - suffix.length)}${suffix}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+/**
+ * The tools an agent may use, gathered from all of its MCP servers.
+ *
+ * Each server is listed independently and filtered by its own `allowed_tools`.
+ * A tool name offered by more than one server is namespaced as
+ * `<server>__<tool>` on every server that offers it, so calls route unambiguously.
+ * Servers sharing an alias get numbered ones, and a namespaced name that still
+ * clashes with another tool is numbered too.
+ * A server listed twice with the same URL is only queried once.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+
+  private constructor(tools: RegisteredTool[]) {
+    for (const tool of tools) {
+      const existing = this.tools.get(tool.name);
+      if (existing) {
+        console.error(`❌ Tools '${existing.server}/${existing.originalName}' and '${tool.server}/${tool.originalName}' both map to '${tool.name}'; keeping the first`);
+        continue;
+      }
+      this.tools.set(tool.name, tool);
+    }
+  }
+
+  /**
+   * Build a registry for the given servers. A server that fails to list its
+   * tools is logged and skipped rather than failing the whole event.
+   */
+  static async fromServers(servers: MCPServerConfig[]): Promise<ToolRegistry> {
+    return tracer.startActiveSpan('ToolRegistry.fromServers', {
+      attributes: { 'mcp.server_count': servers.length },
+    }, async (span) => {
+      try {
+        // Merge duplicate server entries by URL, combining their allowed tools
+        const byUrl = new Map<string, MCPServerConfig>();
+        for (const server of servers) {
+          if (!server?.url) continue;
+          const existing = byUrl.get(server.url);
+          if (existing) {
+            existing.allowed_tools = [...new Set([...existing.allowed_tools, ...(server.allowed_tools ?? [])])];
+            existing.require_confirmation = [...new Set([...existing.require_confirmation!, ...(server.require_confirmation ?? [])])];
+          } else {
+            byUrl.set(server.url, {
+              ...server,
+              allowed_tools: [...(server.allowed_tools ?? [])],
+              require_confirmation: [...(server.require_confirmation ?? [])],
+            });
+          }
+        }
+
+        const uniqueServers = [...byUrl.values()];
+        const takenAliases = new Set<string>();
+        const aliases = uniqueServers.map(server => {
+          const alias = claimUniqueName(serverAlias(server), takenAliases);
+          if (alias !== serverAlias(server)) {
+            console.warn(`⚠️ MCP server ${server.url} shares the alias '${serverAlias(server)}' with another server, using '${alias}'`);
+          }
+          return alias;
+        });
+        const listings = await Promise.allSettled(uniqueServers.map(listServerTools));
+        const cacheHits = listings.filter(l => l.status === 'fulfilled' && l.value.hit).length;
+        span.setAttributes({ 'mcp.tools_cache_hits': cacheHits, 'mcp.tools_cache_misses': uniqueServers.length - cacheHits });
+
+        const candidates: Array<Omit<RegisteredTool, 'name'>> = [];
+        listings.forEach((listing, i) => {
+          const server = uniqueServers[i];
+          const alias = aliases[i];
+
+          if (listing.status === 'rejected') {
+            console.error(`❌ Failed to list tools from MCP server ${alias} (${server.url}):`, listing.reason);
+            span.addEvent('mcp.list_tools_failed', { 'mcp.server': alias });
+            return;
+          }
+
+          for (const tool of listing.value.value) {
+            if (!server.allowed_tools.includes(tool.name)) continue;
+            candidates.push({
+              originalName: tool.name,
+              server: alias,
+              client: getMCPClient(server),
+              requiresConfirmation: server.require_confirmation!.includes(tool.name),
+              definition: tool,
+            });
+          }
+        });
+
+        const nameCounts = new Map<string, number>();
+        for (const c of candidates) nameCounts.set(c.originalName, (nameCounts.get(c.originalName) ?? 0) + 1);
+
+        // Plain names are reserved first, so namespaced names work around them
+        const collides = (c: Omit<RegisteredTool, 'name'>) => (nameCounts.get(c.originalName) ?? 0) > 1;
+        const takenNames = new Set(candidates.filter(c => !collides(c)).map(c => c.originalName));
+        const tools: RegisteredTool[] = candidates.map(c => {
+          if (!collides(c)) return { ...c, name: c.originalName };
+          const namespaced = `${c.server}${NAMESPACE_SEPARATOR}${c.originalName}`;
+          const name = claimUniqueName(namespaced, takenNames);
+          if (name !== namespaced) console.warn(`⚠️ Tool name '${namespaced}' is too long or already taken, exposing as '${name}'`);
+          else console.log(`🔀 Tool '${c.originalName}' offered by several servers, exposing as '${name}'`);
+          return { ...c, name, definition: { ...c.definition, name } };
+        });
+
+        span.setAttribute('mcp.tool_count', tools.length);
+        span.setStatus({ code: SpanStatusCode.OK });
+        return new ToolRegistry(tools);
+      } catch (err) {
+        span.recordException(err as Error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: (err as Error).message });
+        throw err;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /** Tool definitions in the shape expected by `LLMClient`. */
+  get definitions(): ToolDefinition[] {
+    return [...this.tools.values()].map(t => t.definition);
+  }
+
+  /**
+   * Add an orchestrator-level tool. It takes precedence over an MCP tool of the same name.
+   */
+  registerBuiltin(definition: ToolDefinition, handler: BuiltinToolHandler): void {
+    if (this.tools.has(definition.name)) {
+      console.warn(`⚠️ Built-in tool '${definition.name}' hides the MCP tool of the same name`);
+    }
+    this.tools.set(definition.name, {
+      name: definition.name,
+      originalName: definition.name,
+      server: BUILTIN_SERVER,
+      handler,
+      definition,
+    });
+  }
+
+  /** Whether calls to the tool must be approved by the user before they run. */
+  requiresConfirmation(name: string): boolean {
+    return this.tools.get(name)?.requiresConfirmation ?? false;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  resolve(name: string): RegisteredTool | undefined {
+    return this.tools.get(name);
+  }
+
+  /** Call a tool by its LLM-facing name on the server that owns it. */
+  async callTool(name: string, args: Record<string, any>, signal?: AbortSignal): Promise<any> {
+    const tool = this.tools.get(name);
+    if (!tool) throw new Error(`Unknown tool '${name}'`);
+
+    if (tool.handler) {
+      console.log(`🧭 Running built-in tool '${name}'`);
+      return tool.handler(args, signal);
+    }
+
+    console.log(`🧭 Routing tool '${name}' to MCP server ${tool.server}`);
+    return tool.client!.callTool({ name: tool.originalName, arguments: args }, { signal });
+  }
+}
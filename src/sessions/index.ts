@@ -0,0 +1,94 @@
+import { Router } from "express";
+import { conversationStore } from "../clients/conversationStore.js";
+import type { SessionStatus } from "../clients/conversationStore.js";
+
+const router = Router();
+
+const SESSION_STATUSES: SessionStatus[] = ["active", "closed", "expired"];
+
+// GET sessions for a user, most recently active first: ?user_id=&status=&limit=
+router.get("/", async (req, res) => {
+    try {
+        const { user_id, status, limit } = req.query;
+
+        if (!user_id) return res.status(400).json({ ok: false, error: "Missing user_id" });
+        if (status && !SESSION_STATUSES.includes(status.toString() as SessionStatus)) {
+            return res.status(400).json({ ok: false, error: `status must be one of: ${SESSION_STATUSES.join(", ")}` });
+        }
+
+        const sessions = await conversationStore.listSessions({
+            user_id: user_id.toString(),
+            status: status ? (status.toString() as SessionStatus) : undefined,
+            limit: limit ? Math.min(Number(limit) || 50, 200) : undefined,
+        });
+        res.json({ ok: true, sessions });
+    } catch (err: any) {
+        res.status(500).json({ ok: false, error: err.message });
+    }
+});
+
+// GET a single session
+router.get("/:id", async (req, res) => {
+    try {
+        const session = await conversationStore.getSessionById(req.params.id);
+        if (!session) return res.status(404).json({ ok: false, error: "Session not found" });
+        res.json({ ok: true, session });
+    } catch (err: any) {
+        res.status(500).json({ ok: false, error: err.message });
+    }
+});
+
+// GET the messages of a session, oldest first
+router.get("/:id/messages", async (req, res) => {
+    try {
+        const session = await conversationStore.getSessionById(req.params.id);
+        if (!session) return res.status(404).json({ ok: false, error: "Session not found" });
+
+        const rows = await conversationStore.getLatestConversationBySessionId(session.id);
+        const messages = rows.map(row => {
+            let message: unknown = row.message;
+            try {
+                message = JSON.parse(row.message);
+            } catch {
+                // Leave unparseable rows as the raw string
+            }
+            return {
+                id: row.id,
+                role: row.role,
+                agent_id: row.agent_id,
+                model: row.model,
+                finish_reason: row.finish_reason || null,
+                timestamp: row.timestamp,
+                message,
+            };
+        });
+
+        res.json({ ok: true, session_id: session.id, messages });
+    } catch (err: any) {
+        res.status(500).json({ ok: false, error: err.message });
+    }
+});
+
+// POST close a session; the user's next message starts a new one
+router.post("/:id/close", async (req, res) => {
+    try {
+        const updated = await conversationStore.updateSessionStatus(req.params.id, "closed");
+        if (!updated) return res.status(404).json({ ok: false, error: "Session not found" });
+        res.json({ ok: true, session: await conversationStore.getSessionById(req.params.id) });
+    } catch (err: any) {
+        res.status(500).json({ ok: false, error: err.message });
+    }
+});
+
+// DELETE a session together with its history and summaries
+router.delete("/:id", async (req, res) => {
+    try {
+        const deleted = await conversationStore.deleteSession(req.params.id);
+        if (!deleted) return res.status(404).json({ ok: false, error: "Session not found" });
+        res.json({ ok: true });
+    } catch (err: any) {
+        res.status(500).json({ ok: false, error: err.message });
+    }
+});
+
+export default router;
@@ -0,0 +1,26 @@
+import { after, describe } from 'node:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { v4 as uuidv4 } from 'uuid';
+import { createClient } from '@libsql/client';
+import type { Client } from '@libsql/client';
+
+/**
+ * Run the same suite against a store's in-memory and libSQL implementations.
+ * `createStore` returns a fresh, empty store; libSQL stores each get their own
+ * database file, removed when the test file finishes.
+ */
+export function describeStores<S>(
+  InMemoryStore: new () => S,
+  LibsqlStore: new (db: Client) => S,
+  suite: (createStore: () => S) => void,
+): void {
+  describe(InMemoryStore.name, () => suite(() => new InMemoryStore()));
+
+  describe(LibsqlStore.name, () => {
+    const dir = mkdtempSync(join(tmpdir(), 'store-test-'));
+    after(() => rmSync(dir, { recursive: true, force: true }));
+    suite(() => new LibsqlStore(createClient({ url: `file:${join(dir, `${uuidv4()}.db`)}` })));
+  });
+}
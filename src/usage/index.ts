@@ -0,0 +1,75 @@
+import { Router } from "express";
+import { conversationStore } from "../clients/conversationStore.js";
+import type { UsageDimension } from "../clients/conversationStore.js";
+import { modelPrices } from "./pricing.js";
+import { buildUsageReport, USAGE_DIMENSIONS } from "./report.js";
+
+const router = Router();
+
+const DEFAULT_RANGE_DAYS = 30;
+const DEFAULT_LIMIT = 1000;
+const MAX_LIMIT = 10_000;
+
+/** A date or date-time in ISO 8601, or unix seconds, as unix seconds. */
+function parseTime(value: unknown): number | null {
+    const raw = value?.toString() ?? "";
+    const time = /^\d+$/.test(raw) ? Number(raw) * 1000 : Date.parse(raw);
+    return Number.isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+// GET token, turn, tool call and estimated cost totals from conversation_history:
+// ?from=&to= (ISO dates or unix seconds; the last 30 days by default)
+// &group_by=agent,user,model,session,day|week (default agent) &agent_id=&user_id=&session_id= &limit=
+router.get("/", async (req, res) => {
+    try {
+        const { from, to, group_by, agent_id, user_id, session_id, limit } = req.query;
+
+        const until = to ? parseTime(to) : Math.floor(Date.now() / 1000);
+        const since = from ? parseTime(from) : until != null ? until - DEFAULT_RANGE_DAYS * 86_400 : null;
+        if (since == null || until == null) return res.status(400).json({ ok: false, error: "from and to must be ISO dates or unix seconds" });
+        if (since >= until) return res.status(400).json({ ok: false, error: "from must be before to" });
+
+        const groupBy = (group_by?.toString() || "agent").split(",").map(dim => dim.trim()).filter(Boolean) as UsageDimension[];
+        const unknown = groupBy.filter(dim => !USAGE_DIMENSIONS.includes(dim));
+        if (unknown.length) {
+            return res.status(400).json({ ok: false, error: `group_by must be among: ${USAGE_DIMENSIONS.join(", ")}` });
+        }
+        if (groupBy.includes("day") && groupBy.includes("week")) {
+            return res.status(400).json({ ok: false, error: "group_by may include day or week, not both" });
+        }
+        const maxGroups = limit ? Number(limit) : DEFAULT_LIMIT;
+        if (!Number.isInteger(maxGroups) || maxGroups < 1) {
+            return res.status(400).json({ ok: false, error: "limit must be a positive integer" });
+        }
+
+        const rows = await conversationStore.getUsage({
+            since,
+            until,
+            agent_id: agent_id?.toString(),
+            user_id: user_id?.toString(),
+            session_id: session_id?.toString(),
+            group_by: groupBy,
+        });
+        const report = buildUsageReport(rows, groupBy, {
+            limit: Math.min(maxGroups, MAX_LIMIT),
+        });
+
+        res.json({
+            ok: true,
+            from: new Date(since * 1000).toISOString(),
+            to: new Date(until * 1000).toISOString(),
+            group_by: groupBy,
+            currency: "USD",
+            ...report,
+        });
+    } catch (err: any) {
+        res.status(500).json({ ok: false, error: err.message });
+    }
+});
+
+// GET the price table used for cost estimates, in USD per million tokens
+router.get("/prices", (_req, res) => {
+    res.json({ ok: true, currency: "USD", per_tokens: 1_000_000, prices: modelPrices });
+});
+
+export default router;
@@ -0,0 +1,65 @@
+import { CONFIG } from '../utils/config.js';
+
+/** Price of a model in USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices per model family, matched by the longest prefix of the model name
+ * without its `provider/`. `MODEL_PRICES` adds to or overrides these.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+};
+
+/**
+ * Parse `MODEL_PRICES`, a JSON object mapping model prefixes to
+ * `{ "input": <USD>, "output": <USD> }` per million tokens, over the defaults.
+ */
+export function parsePrices(raw: string | undefined): Record<string, ModelPrice> {
+  if (!raw) return { ...DEFAULT_MODEL_PRICES };
+  try {
+    const parsed = JSON.parse(raw) as Record<string, ModelPrice>;
+    const valid = Object.entries(parsed).filter(([, price]) =>
+      Number.isFinite(price?.input) && Number.isFinite(price?.output));
+    return { ...DEFAULT_MODEL_PRICES, ...Object.fromEntries(valid) };
+  } catch (err) {
+    console.error('❌ MODEL_PRICES is not valid JSON, using the default prices:', err);
+    return { ...DEFAULT_MODEL_PRICES };
+  }
+}
+
+export const modelPrices: Record<string, ModelPrice> = parsePrices(CONFIG.MODEL_PRICES);
+
+/** The price for `model`, or null when no prefix matches. */
+export function priceForModel(model: string, prices: Record<string, ModelPrice> = modelPrices): ModelPrice | null {
+  const bare = model.includes('/') ? model.slice(model.lastIndexOf('/') + 1) : model;
+  const match = Object.keys(prices)
+    .filter(prefix => bare.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : null;
+}
+
+/** Estimated cost in USD, or null when the model has no price. */
+export function estimateCost(
+  model: string,
+  tokens: { prompt_tokens: number; completion_tokens: number },
+  prices: Record<string, ModelPrice> = modelPrices
+): number | null {
+  const price = priceForModel(model, prices);
+  if (!price) return null;
+  return (tokens.prompt_tokens * price.input + tokens.completion_tokens * price.output) / 1_000_000;
+}
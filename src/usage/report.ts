@@ -0,0 +1,84 @@
+import type { UsageDimension, UsageRow } from '../clients/conversationStore.js';
+import { estimateCost, modelPrices } from './pricing.js';
+import type { ModelPrice } from './pricing.js';
+
+export const USAGE_DIMENSIONS: UsageDimension[] = ['agent', 'user', 'model', 'session', 'day', 'week'];
+
+type UsageTotals = Pick<UsageRow, 'llm_turns' | 'tool_calls' | 'prompt_tokens' | 'completion_tokens' | 'total_tokens'>;
+
+/**
+ * One group of the report. `estimated_cost_usd` only covers models with a
+ * price; tokens of other models are counted in `unpriced_tokens`.
+ */
+export interface UsageGroup extends Partial<Pick<UsageRow, 'agent_id' | 'user_id' | 'session_id' | 'period' | 'model'>>, UsageTotals {
+  estimated_cost_usd: number;
+  unpriced_tokens: number;
+}
+
+export interface UsageReport {
+  totals: UsageTotals & { estimated_cost_usd: number; unpriced_tokens: number };
+  groups: UsageGroup[];
+  /** Models seen in the range without an entry in the price table. */
+  unpriced_models: string[];
+  /** Whether groups beyond `limit` were left out; totals always cover every group. */
+  truncated: boolean;
+}
+
+function emptyGroup(): UsageTotals & { estimated_cost_usd: number; unpriced_tokens: number } {
+  return { llm_turns: 0, tool_calls: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, estimated_cost_usd: 0, unpriced_tokens: 0 };
+}
+
+function add(target: UsageTotals & { estimated_cost_usd: number; unpriced_tokens: number }, row: UsageRow, cost: number | null) {
+  target.llm_turns += row.llm_turns;
+  target.tool_calls += row.tool_calls;
+  target.prompt_tokens += row.prompt_tokens;
+  target.completion_tokens += row.completion_tokens;
+  target.total_tokens += row.total_tokens;
+  if (cost === null) target.unpriced_tokens += row.total_tokens;
+  else target.estimated_cost_usd += cost;
+}
+
+/**
+ * Price per-model usage rows and merge them into the requested groups. Groups
+ * are ordered by period, then by most tokens.
+ */
+export function buildUsageReport(
+  rows: UsageRow[],
+  groupBy: UsageDimension[],
+  { limit, prices = modelPrices }: { limit: number; prices?: Record<string, ModelPrice> }
+): UsageReport {
+  const dimensions = new Set(groupBy);
+  const groups = new Map<string, UsageGroup>();
+  const totals = emptyGroup();
+  const unpriced = new Set<string>();
+
+  for (const row of rows) {
+    const cost = estimateCost(row.model, row, prices);
+    if (cost === null && row.total_tokens > 0) unpriced.add(row.model);
+
+    const key: Partial<UsageGroup> = {};
+    if (dimensions.has('agent')) key.agent_id = row.agent_id ?? null;
+    if (dimensions.has('user')) key.user_id = row.user_id ?? null;
+    if (dimensions.has('session')) key.session_id = row.session_id ?? null;
+    if (dimensions.has('day') || dimensions.has('week')) key.period = row.period;
+    if (dimensions.has('model')) key.model = row.model;
+
+    const id = JSON.stringify(key);
+    const group = groups.get(id) ?? { ...key, ...emptyGroup() };
+    add(group, row, cost);
+    groups.set(id, group);
+    add(totals, row, cost);
+  }
+
+  const sorted = [...groups.values()].sort((a, b) =>
+    (a.period ?? '').localeCompare(b.period ?? '') || b.total_tokens - a.total_tokens);
+  // Round to micro-dollars to drop floating-point noise
+  for (const group of [...sorted, totals]) group.estimated_cost_usd = Math.round(group.estimated_cost_usd * 1e6) / 1e6;
+
+  return {
+    totals,
+    groups: sorted.slice(0, limit),
+    unpriced_models: [...unpriced].sort(),
+    truncated: sorted.length > limit,
+  };
+}
@@ -37,10 +37,32 @@ export const CONFIG = {
   MONGODB_URI: getEnv("MONGODB_URI"),
   MONGODB_DB_NAME: getEnv("MONGODB_DB_NAME") || "agents",
   API_KEY: getEnv("API_KEY"),
+  AUTH_DISABLED: process.env.AUTH_DISABLED === "true",
+  API_KEY_CACHE_TTL_MS: Number(process.env.API_KEY_CACHE_TTL_MS ?? 60_000),
   LLM_API_KEY: getEnv("LLM_API_KEY"),
+  LLM_BASE_URL: process.env.LLM_BASE_URL || "https://royzheng-llm.hf.space",
+  OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+  OPENAI_BASE_URL: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+  ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
+  GEMINI_API_KEY: process.env.GEMINI_API_KEY,
   INT_API_KEY: getEnv("INT_API_KEY"),
   TURSO_URL: getEnv("TURSO_URL"),
   TURSO_AUTH_TOKEN: getEnv("TURSO_AUTH_TOKEN"),
+  CONVERSATION_STORE: process.env.CONVERSATION_STORE || "turso",
+  SQLITE_PATH: process.env.SQLITE_PATH || "data/agents.db",
+  EVENT_WORKERS: Number(process.env.EVENT_WORKERS) || 2,
+  DEDUPE_TTL_HOURS: Number(process.env.DEDUPE_TTL_HOURS) || 24,
+  LOCK_BACKEND: process.env.LOCK_BACKEND || "memory",
+  COALESCE_EVENTS: process.env.COALESCE_EVENTS === "true",
+  AGENT_CACHE_TTL_MS: Number(process.env.AGENT_CACHE_TTL_MS ?? 60_000),
+  MCP_TOOLS_CACHE_TTL_MS: Number(process.env.MCP_TOOLS_CACHE_TTL_MS ?? 300_000),
+  TOOL_APPROVAL_TTL_MS: Number(process.env.TOOL_APPROVAL_TTL_MS) || 15 * 60_000,
+  RATE_LIMIT_API_KEY_PER_MINUTE: Number(process.env.RATE_LIMIT_API_KEY_PER_MINUTE ?? 120),
+  RATE_LIMIT_USER_PER_MINUTE: Number(process.env.RATE_LIMIT_USER_PER_MINUTE ?? 30),
+  MODEL_PRICES: process.env.MODEL_PRICES,
+  DELIVERY_ENDPOINTS: process.env.DELIVERY_ENDPOINTS,
+  DELIVERY_MAX_ATTEMPTS: Number(process.env.DELIVERY_MAX_ATTEMPTS) || 8,
+  DELIVERY_RETRY_BASE_MS: Number(process.env.DELIVERY_RETRY_BASE_MS) || 5000,
   MCP_API_KEY: getEnv("MCP_API_KEY"),
   GRAPHITI_API_KEY: getEnv("GRAPHITI_API_KEY"),
   RMQ_API_KEY: getEnv("RMQ_API_KEY"),
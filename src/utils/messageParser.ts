@@ -2,12 +2,14 @@ export function parseMessage(raw: string): {
   cleanText: string;
   sessionCommand?: string;
   agent_idOverride?: string;
+  approval?: { id: string; decision: 'approve' | 'deny' };
 } {
   let text = (raw ?? '').trim();
   let sessionCommand: string | undefined;
   let agent_idOverride: string | undefined;
+  let approval: { id: string; decision: 'approve' | 'deny' } | undefined;
 
-  // find tags like [s:new], [a:weather], or [s:new;a:weather]
+  // find tags like [s:new], [a:weather], [confirm:<id>], or [s:new;a:weather]
   const matches = text.match(/\[([^\]]+)\]/g) || [];
 
   for (const m of matches) {
@@ -33,9 +35,13 @@ export function parseMessage(raw: string): {
         // Use the original casing for the agent_idOverride value
         agent_idOverride = vRaw;
       }
+      // Answers to a tool approval prompt; the id keeps its original casing
+      if ((k === 'confirm' || k === 'deny') && vRaw) {
+        approval = { id: vRaw, decision: k === 'confirm' ? 'approve' : 'deny' };
+      }
     }
     text = text.replace(m, '').trim();
   }
 
-  return { cleanText: text, sessionCommand, agent_idOverride };
+  return { cleanText: text, sessionCommand, agent_idOverride, approval };
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+import type { Client } from '@libsql/client';
+
+/**
+ * A named, append-only schema change. Statements run in order inside one batch.
+ */
+export interface Migration {
+  id: string;
+  statements: string[];
+}
+
+/**
+ * Apply every migration not yet recorded in `schema_migrations`.
+ * Migrations are identified by id, so each store can own its own list
+ * while sharing the same database.
+ */
+export async function runMigrations(db: Client, migrations: Migration[]): Promise<string[]> {
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id TEXT PRIMARY KEY,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+
+  const res = await db.execute('SELECT id FROM schema_migrations');
+  const applied = new Set(res.rows.map(r => String(r.id)));
+  const newlyApplied: string[] = [];
+
+  for (const migration of migrations) {
+    if (applied.has(migration.id)) continue;
+
+    await db.batch([
+      ...migration.statements,
+      {
+        sql: 'INSERT INTO schema_migrations (id, applied_at) VALUES (?, ?)',
+        args: [migration.id, Math.floor(Date.now() / 1000)],
+      },
+    ], 'write');
+
+    console.log(`🗄️ Applied migration ${migration.id}`);
+    newlyApplied.push(migration.id);
+  }
+
+  return newlyApplied;
+}
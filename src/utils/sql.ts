@@ -0,0 +1,19 @@
+import type { InStatement, InValue } from '@libsql/client';
+
+/**
+ * `UPDATE <table> SET <column> = ?, … WHERE id = ?` for the given changes, or
+ * null when there are none. Column names come from the caller's record type,
+ * never from request input; undefined values are left out.
+ */
+export function updateByIdStatement(
+  table: string,
+  id: string,
+  changes: { [column: string]: InValue | undefined }
+): InStatement | null {
+  const entries = Object.entries(changes).filter((entry): entry is [string, InValue] => entry[1] !== undefined);
+  if (entries.length === 0) return null;
+  return {
+    sql: `UPDATE ${table} SET ${entries.map(([column]) => `${column} = ?`).join(', ')} WHERE id = ?`,
+    args: [...entries.map(([, value]) => value), id],
+  };
+}
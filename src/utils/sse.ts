@@ -0,0 +1,89 @@
+import type { Response as ExpressResponse } from 'express';
+
+/**
+ * A single server-sent event as read from a stream.
+ */
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Reads a `text/event-stream` body and yields one entry per dispatched event.
+ * Multi-line `data:` fields are joined with newlines, comments are ignored.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventName: string | undefined;
+  let dataLines: string[] = [];
+
+  const dispatch = (): ServerSentEvent | null => {
+    if (dataLines.length === 0) {
+      eventName = undefined;
+      return null;
+    }
+    const sse: ServerSentEvent = { event: eventName, data: dataLines.join('\n') };
+    eventName = undefined;
+    dataLines = [];
+    return sse;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+        buffer = buffer.slice(newlineIndex + 1);
+
+        if (line === '') {
+          const sse = dispatch();
+          if (sse) yield sse;
+          continue;
+        }
+        if (line.startsWith(':')) continue; // comment / keep-alive
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+        if (field === 'data') dataLines.push(value);
+        else if (field === 'event') eventName = value;
+      }
+    }
+
+    // Flush a trailing event that was not terminated by a blank line
+    if (buffer.startsWith('data:')) dataLines.push(buffer.replace(/^data:\s?/, ''));
+    const sse = dispatch();
+    if (sse) yield sse;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Prepares an Express response for streaming server-sent events.
+ */
+export function startEventStream(res: ExpressResponse): void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+}
+
+/**
+ * Writes one named event with a JSON payload to an open event stream.
+ */
+export function writeServerSentEvent(res: ExpressResponse, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}